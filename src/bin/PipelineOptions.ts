@@ -0,0 +1,220 @@
+import ArgumentParser, { ParsedArguments } from '../lib/ArgumentParser.js';
+import DuMeshTransformer from '../lib/DuMeshTransformer.js';
+import TextureCache from '../lib/TextureCache.js';
+import { GameDirectorySource } from '../lib/GameDirectory.js';
+import { ExportPreset, loadExportPresets } from '../lib/ExportPresets.js';
+import { ElementLibrary, loadElementLibrary, loadElementReplacementsFile } from '../lib/ElementLibrary.js';
+import { MeshCompression } from '../lib/commands/OptimizationTransform.js';
+import { LodMode } from '../lib/commands/LodTransform.js';
+import { ElementPivot } from '../lib/commands/ElementSeparationTransform.js';
+import { OriginMode } from '../lib/commands/OriginTransform.js';
+import { TextureOutputFormat, ChannelPacking } from '../lib/commands/TexturesTransform.js';
+import { SplitMode } from '../lib/SplitOutput.js';
+import { EventType, MaterialDefinitions } from '../lib/types';
+
+/**
+ * Registers the options that control the standard processing pipeline
+ */
+export function addPipelineOptions(parser: ArgumentParser): ArgumentParser {
+  return parser
+    .option({ name: 'materials', type: 'string', valueName: 'file', multiple: true, description: 'Applies material overrides from a file, can be used multiple times' })
+    .option({ name: 'preset', type: 'string', valueName: 'name', description: 'Uses the settings for a target engine (blender, unity, unreal, threejs or a user preset), other options override it' })
+    .option({ name: 'presets', type: 'string', valueName: 'file', multiple: true, description: 'Loads user presets from a file, can be used multiple times' })
+    .option({ name: 'gltf', type: 'boolean', description: 'Saves as .gltf (with separate textures) instead of .glb' })
+    .option({ name: 'split', type: 'string', valueName: 'material|category', description: 'Saves each material (or material category) into its own file, all sharing the same origin' })
+    .option({ name: 'textures', type: 'boolean', description: 'Applies game textures, use --no-textures to skip' })
+    .option({ name: 'flip-normal-green', type: 'boolean', description: 'Flips the normal map green channel, converting between DirectX and OpenGL conventions' })
+    .option({ name: 'max-texture-size', type: 'number', valueName: 'pixels', description: 'Downsamples any textures larger than this' })
+    .option({ name: 'texture-format', type: 'string', valueName: 'png|jpeg', description: 'Format for color and emissive textures (default: png)' })
+    .option({ name: 'jpeg-quality', type: 'number', valueName: '1-100', description: 'Quality when saving textures as JPEG (default: 85)' })
+    .option({ name: 'skip-texture', type: 'string', valueName: 'type', multiple: true, description: 'Skips a texture type (color, normal, mrao or emissive), can be used multiple times' })
+    .option({ name: 'channel-packing', type: 'string', valueName: 'gltf|separate|unity|hdrp', description: 'Also writes metallic, roughness and AO in another layout, for .gltf output (default: gltf)' })
+    .option({ name: 'uvs', type: 'boolean', description: 'Generates UV maps, use --no-uvs to skip' })
+    .option({ name: 'separate', type: 'boolean', description: 'Separates elements from honeycomb, use --no-separate to skip' })
+    .option({ name: 'elements', type: 'string', valueName: 'file', multiple: true, description: 'Names separated elements using an element library file, can be used multiple times' })
+    .option({ name: 'element-models', type: 'string', valueName: 'file', multiple: true, description: 'Replaces separated elements with the models listed in a file, can be used multiple times' })
+    .option({ name: 'element-pivot', type: 'string', valueName: 'center|bottom', description: 'Where the origin of each separated element goes (default: center)' })
+    .option({ name: 'emissive-strength', type: 'number', valueName: 'strength', description: 'HDR strength applied to emissive materials (default: 5)' })
+    .option({ name: 'merge-faces', type: 'boolean', description: 'Merges flat faces on the voxel grid into larger ones, reducing the triangle count' })
+    .option({ name: 'bake-atlas', type: 'boolean', description: 'Bakes all materials into a single texture atlas and material, for one draw call per mesh' })
+    .option({ name: 'atlas-resolution', type: 'number', valueName: 'pixels', description: 'Size of the baked atlas textures (default: 2048)' })
+    .option({ name: 'lightmap-uvs', type: 'boolean', description: 'Generates a second UV map (TEXCOORD_1) for baking lightmaps' })
+    .option({ name: 'lightmap-resolution', type: 'number', valueName: 'pixels', description: 'Lightmap size the UVs are packed for (default: 1024)' })
+    .option({ name: 'lightmap-padding', type: 'number', valueName: 'pixels', description: 'Space between lightmap charts (default: 4)' })
+    .option({ name: 'lightmap-density', type: 'number', valueName: 'texels', description: 'Lightmap texels per meter (default: fills the whole lightmap)' })
+    .option({ name: 'lods', type: 'string', valueName: 'ratios', description: 'Generates levels of detail keeping these fractions of triangles, such as 1,0.5,0.2' })
+    .option({ name: 'lod-mode', type: 'string', valueName: 'nodes|msft_lod', description: 'Emits levels of detail as sibling nodes with a _LOD<n> suffix, or with the MSFT_lod extension (default: nodes)' })
+    .option({ name: 'unit-scale', type: 'number', valueName: 'factor', description: 'Scales the model, such as 100 for centimeters (default: 1)' })
+    .option({ name: 'texture-size', type: 'number', valueName: 'meters', description: 'Size of a texture tile in meters when generating UVs (default: 2)' })
+    .option({ name: 'swap-yz', type: 'boolean', description: 'Rotates the model from Z-up into Y-up, use --no-swap-yz to force off (default: auto)' })
+    .option({ name: 'origin', type: 'string', valueName: 'core|center|bottom', description: 'Where the origin of the model goes, the center of its bounding box or of its bottom face (default: core)' })
+    .option({ name: 'optimize', type: 'boolean', description: 'Welds vertices and removes duplicate or unused data' })
+    .option({ name: 'compression', type: 'string', valueName: 'none|meshopt|draco', description: 'Compresses the geometry, implies --optimize (default: none)' })
+    .option({ name: 'cache', type: 'boolean', description: 'Caches decoded textures on disk between runs, use --no-cache to skip' })
+    .option({ name: 'cache-dir', type: 'string', valueName: 'directory', description: 'Where to store the texture cache, can be shared between machines' });
+}
+
+/**
+ * Loads the material definitions, with any overrides passed via --materials applied on top
+ */
+export async function loadPipelineMaterials(options: ParsedArguments['options']): Promise<MaterialDefinitions> {
+  return await DuMeshTransformer.loadMaterialDefinitions((options['materials'] as string[] | undefined) || []);
+}
+
+/**
+ * Loads the user element library, along with any library files passed via --elements
+ */
+export async function loadPipelineElementLibrary(options: ParsedArguments['options']): Promise<ElementLibrary> {
+  return await loadElementLibrary((options['elements'] as string[] | undefined) || []);
+}
+
+/**
+ * Loads the preset passed via --preset, along with any presets files passed via --presets
+ * Element models passed via --element-models are also added to it, as they need to be loaded from files
+ */
+export async function loadPipelinePreset(options: ParsedArguments['options']): Promise<ExportPreset> {
+  const presets = await loadExportPresets((options['presets'] as string[] | undefined) || []);
+  const presetName = options['preset'] as string | undefined;
+  if (presetName !== undefined && !Object.keys(presets).includes(presetName)) {
+    throw new Error(`Unknown preset "${presetName}", must be one of: ${Object.keys(presets).join(', ')}`);
+  }
+
+  let preset: ExportPreset = presetName !== undefined ? presets[presetName] : {};
+  for (const file of (options['element-models'] as string[] | undefined) || []) {
+    preset = { ...preset, elementReplacements: { ...preset.elementReplacements, ...await loadElementReplacementsFile(file) } };
+  }
+  return preset;
+}
+
+/**
+ * Gets how the output is split into multiple files via --split, if at all
+ */
+export function getPipelineSplitMode(options: ParsedArguments['options']): SplitMode | null {
+  const splitBy = options['split'] as string | undefined;
+  if (splitBy !== undefined && !['material', 'category'].includes(splitBy)) {
+    throw new Error(`Invalid split mode "${splitBy}", must be either "material" or "category"`);
+  }
+
+  return (splitBy as SplitMode | undefined) || null;
+}
+
+// Removes any unset values, so they don't replace the ones from a preset
+function withoutUndefined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([key, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * Queues the standard processing pipeline, everything is enabled unless explicitly disabled
+ * Options passed via command-line take priority over the ones from the preset
+ */
+export function queuePipelineTransforms(transformer: DuMeshTransformer, options: ParsedArguments['options'], preset: ExportPreset = {}, elementLibrary: ElementLibrary | null = null): DuMeshTransformer {
+  // The persistent texture cache isn't a transform, but it's part of the pipeline for us
+  if (options['cache'] !== false) {
+    transformer.setTextureCache((options['cache-dir'] as string | undefined) || new TextureCache());
+  }
+
+  // Same for the element library, which is used when separating elements
+  transformer.setElementLibrary(elementLibrary);
+
+  const textures: ExportPreset['textures'] = (options['textures'] === false || (preset.textures === false && options['textures'] !== true))
+    ? false
+    : {
+      ...(preset.textures || {}),
+      ...withoutUndefined({
+        flipNormalMapGreen: options['flip-normal-green'] as boolean | undefined,
+        maxTextureSize: options['max-texture-size'] as number | undefined,
+        colorTextureFormat: options['texture-format'] as TextureOutputFormat | undefined,
+        jpegQuality: options['jpeg-quality'] as number | undefined,
+        excludeTextureTypes: options['skip-texture'] as string[] | undefined,
+        channelPacking: options['channel-packing'] as ChannelPacking | undefined,
+      }),
+    };
+
+  const lightmapUvOptions = withoutUndefined({
+    resolution: options['lightmap-resolution'] as number | undefined,
+    padding: options['lightmap-padding'] as number | undefined,
+    texelsPerMeter: options['lightmap-density'] as number | undefined,
+  });
+  const lightmapUvs: ExportPreset['lightmapUvs'] = (options['lightmap-uvs'] === false || (!preset.lightmapUvs && !options['lightmap-uvs']))
+    ? false
+    : { ...(typeof preset.lightmapUvs === 'object' ? preset.lightmapUvs : {}), ...lightmapUvOptions };
+
+  const bakedAtlasOptions = withoutUndefined({
+    resolution: options['atlas-resolution'] as number | undefined,
+  });
+  const bakedAtlas: ExportPreset['bakedAtlas'] = (options['bake-atlas'] === false || (!preset.bakedAtlas && !options['bake-atlas']))
+    ? false
+    : { ...(typeof preset.bakedAtlas === 'object' ? preset.bakedAtlas : {}), ...bakedAtlasOptions };
+
+  const separateElements: ExportPreset['separateElements'] = (options['separate'] === false || (preset.separateElements === false && options['separate'] !== true))
+    ? false
+    : {
+      ...(typeof preset.separateElements === 'object' ? preset.separateElements : {}),
+      ...withoutUndefined({
+        pivot: options['element-pivot'] as ElementPivot | undefined,
+      }),
+    };
+
+  const lodOptions = withoutUndefined({
+    ratios: (options['lods'] as string | undefined)?.split(',').map(ratio => parseFloat(ratio)),
+    mode: options['lod-mode'] as LodMode | undefined,
+  });
+  const lods: ExportPreset['lods'] = (!preset.lods && !options['lods'])
+    ? false
+    : { ...(typeof preset.lods === 'object' ? preset.lods : {}), ...lodOptions };
+
+  const optimizationOptions = withoutUndefined({
+    compression: options['compression'] as MeshCompression | undefined,
+  });
+  const optimization: ExportPreset['optimization'] = (options['optimize'] === false || (!preset.optimization && !options['optimize'] && !options['compression']))
+    ? false
+    : { ...(typeof preset.optimization === 'object' ? preset.optimization : {}), ...optimizationOptions };
+
+  return transformer.withPreset({
+    ...preset,
+    ...withoutUndefined({
+      uvs: options['uvs'] as boolean | undefined,
+      swapYZ: options['swap-yz'] as boolean | undefined,
+      origin: options['origin'] as OriginMode | undefined,
+      textureSizeInMeters: options['texture-size'] as number | undefined,
+      emissiveStrength: options['emissive-strength'] as number | undefined,
+      unitScale: options['unit-scale'] as number | undefined,
+    }),
+    textures,
+    separateElements,
+    mergeFaces: options['merge-faces'] === false ? false : (preset.mergeFaces || !!options['merge-faces']),
+    bakedAtlas,
+    lightmapUvs,
+    lods,
+    optimization,
+  });
+}
+
+/**
+ * Prints which game directory is being used, and where it came from
+ */
+export function printGameDirectory(directory: string | null, source: GameDirectorySource | null) {
+  if (directory) {
+    console.log(`Game directory: ${directory} (from ${source})`);
+  } else {
+    console.log(`Game directory not found, run "du-gltf config set game-dir <path>" or supply it as a parameter to apply textures`);
+  }
+}
+
+/**
+ * Prints the transformer events into the console, warnings can be silenced when they're collected elsewhere
+ */
+export function attachEventLogging(transformer: DuMeshTransformer, isDebugEnabled: boolean, { warnings = true } = {}) {
+  // Always print warnings
+  if (warnings) {
+    transformer.events().on(EventType.WARNING, message => console.warn('[WARNING]', message));
+  }
+
+  // Only show debug stuff with debug env variable
+  if (isDebugEnabled) {
+    transformer.events().on(EventType.TRANSFORM_START, () => console.log('\n[STATUS] Model processing started!\n'));
+    transformer.events().on(EventType.TRANSFORM_FINISH, () => console.log('[STATUS] Model processing finished!\n'));
+    transformer.events().on(EventType.TRANSFORM_NEXT, () => console.log(''));
+    transformer.events().on(EventType.DEBUG, message => console.log('[DEBUG]', message));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+
+import ArgumentParser from '../../lib/ArgumentParser.js';
+import DuMeshTransformer from '../../lib/DuMeshTransformer.js';
+import { GameDirectorySource } from '../../lib/GameDirectory.js';
+import BatchProcessor, { BatchFileStatus } from '../../lib/BatchProcessor.js';
+import { formatTable } from '../../lib/TextTable.js';
+import { addPipelineOptions, attachEventLogging, getPipelineSplitMode, loadPipelineElementLibrary, loadPipelineMaterials, loadPipelinePreset, printGameDirectory, queuePipelineTransforms } from '../PipelineOptions.js';
+
+// These are the options we support via command-line
+const cli = addPipelineOptions(
+  new ArgumentParser()
+    .option({ name: 'output', alias: 'o', type: 'string', valueName: 'directory', description: 'Where to save the processed files, defaults to "<name>.out.glb" next to each input' })
+)
+  .option({ name: 'help', alias: 'h', type: 'boolean', description: 'Shows this help text' });
+
+/**
+ * Processes every model in a directory or glob pattern
+ */
+export default async function BatchCommand(args: string[]) {
+  const isDebugEnabled = !!JSON.parse(process.env.debug || 'false');
+  const { options, positionals: [pattern, customGameDirectory] } = cli.parse(args);
+
+  // Help text
+  if (options['help'] || !pattern) {
+    console.log(cli.getHelpText('du-gltf batch [options] <directory|glob> [gameDirectory]'));
+    return;
+  }
+
+  // Lists our files
+  const files = await BatchProcessor.findModelFiles(pattern);
+  const baseDirectory = await BatchProcessor.getBaseDirectory(pattern);
+  if (files.length == 0) {
+    console.info(`No .gltf or .glb files found in: ${pattern}`);
+    return;
+  }
+  console.log(`Found ${files.length} files for processing`);
+
+  // Shows which game directory we're using
+  if (customGameDirectory && customGameDirectory.length > 0) {
+    printGameDirectory(customGameDirectory, GameDirectorySource.CUSTOM);
+  } else {
+    const location = DuMeshTransformer.locateGameInstallationDirectory();
+    printGameDirectory(location?.directory || null, location?.source || null);
+  }
+
+  // Output can be redirected into another directory
+  const outputDirectory = options['output'] as string | undefined;
+  if (outputDirectory) {
+    await fs.mkdir(outputDirectory, { recursive: true });
+  }
+  const preset = await loadPipelinePreset(options);
+  const elementLibrary = await loadPipelineElementLibrary(options);
+  const processor = new BatchProcessor({
+    saveAsJson: !!options['gltf'],
+    splitBy: getPipelineSplitMode(options),
+    materialDefinitions: await loadPipelineMaterials(options),
+    getOutputFile: (file) => outputDirectory
+      ? BatchProcessor.getOutputFileInDirectory(file, baseDirectory, outputDirectory)
+      : BatchProcessor.getDefaultOutputFile(file),
+    prepare: (transformer) => {
+      if (customGameDirectory && customGameDirectory.length > 0) {
+        transformer.setGameInstallationDirectory(customGameDirectory);
+      }
+
+      // Warnings are collected into the summary instead
+      attachEventLogging(transformer, isDebugEnabled, { warnings: false });
+      queuePipelineTransforms(transformer, options, preset, elementLibrary);
+    },
+  });
+
+  // Processes everything, one file at a time
+  const results = await processor.processFiles(files, (result, index) => {
+    console.log(`[${index + 1}/${files.length}] ${result.status.toUpperCase()}: ${result.file}`);
+  });
+
+  // Prints our summary
+  console.log('');
+  console.log(formatTable(
+    ['File', 'Status', 'Warnings', 'Time', 'Details'],
+    results.map(result => [
+      result.file,
+      result.status,
+      `${result.warnings.length}`,
+      `${(result.duration / 1000).toFixed(1)}s`,
+      result.error
+        ? (isDebugEnabled ? `${result.error.stack}` : result.error.message)
+        : result.warnings.join('; '),
+    ]),
+  ));
+
+  // Totals
+  const count = (status: BatchFileStatus) => results.filter(result => result.status == status).length;
+  console.log('');
+  console.log(`Done! ${count(BatchFileStatus.SUCCESS)} succeeded, ${count(BatchFileStatus.WARNING)} with warnings, ${count(BatchFileStatus.FAILURE)} failed`);
+
+  // Signals failures through our exit code
+  return count(BatchFileStatus.FAILURE) > 0 ? 1 : 0;
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import ArgumentParser from '../../lib/ArgumentParser.js';
+import TextureCache from '../../lib/TextureCache.js';
+
+// These are the options we support via command-line
+const cli = new ArgumentParser()
+  .option({ name: 'cache-dir', type: 'string', valueName: 'directory', description: 'The texture cache directory, if not the default one' })
+  .option({ name: 'older-than', type: 'number', valueName: 'days', description: 'When pruning, also removes entries not used in this many days' })
+  .option({ name: 'json', type: 'boolean', description: 'Outputs as JSON' })
+  .option({ name: 'help', alias: 'h', type: 'boolean', description: 'Shows this help text' });
+
+// Formats a size in bytes into something readable
+function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let unit = 0;
+  while (bytes >= 1024 && unit < units.length - 1) {
+    bytes /= 1024;
+    unit++;
+  }
+  return `${bytes.toFixed(unit > 0 ? 1 : 0)} ${units[unit]}`;
+}
+
+/**
+ * Manages the persistent texture cache
+ */
+export default async function CacheCommand(args: string[]) {
+  const { options, positionals: [action] } = cli.parse(args);
+  const isJson = !!options['json'];
+
+  // Help text
+  if (options['help'] || !['inspect', 'prune', 'clear'].includes(action)) {
+    console.log(cli.getHelpText('du-gltf cache <inspect|prune|clear> [options]'));
+    return;
+  }
+
+  const cache = new TextureCache((options['cache-dir'] as string | undefined) || TextureCache.getDefaultDirectory());
+
+  switch (action) {
+    case 'inspect':
+      const stats = await cache.getStats();
+      if (isJson) {
+        console.log(JSON.stringify(stats, null, 2));
+      } else {
+        console.log(`Cache directory: ${stats.directory}`);
+        console.log(`Entries: ${stats.entries} (${formatSize(stats.totalSize)})`);
+        console.log(`Stale entries: ${stats.staleEntries} (${formatSize(stats.staleSize)})`);
+        console.log(`Oldest use: ${stats.oldestUse ? stats.oldestUse.toISOString() : '-'}`);
+        console.log(`Newest use: ${stats.newestUse ? stats.newestUse.toISOString() : '-'}`);
+      }
+      break;
+
+    case 'prune':
+      const removed = await cache.prune({ maxAgeDays: options['older-than'] as number | undefined });
+      const removedSize = removed.reduce((sum, entry) => sum + entry.size, 0);
+      if (isJson) {
+        console.log(JSON.stringify({ removedEntries: removed.length, removedSize }, null, 2));
+      } else {
+        console.log(`Removed ${removed.length} entries (${formatSize(removedSize)}) from: ${cache.getDirectory()}`);
+      }
+      break;
+
+    case 'clear':
+      await cache.clear();
+      if (isJson) {
+        console.log(JSON.stringify({ cleared: true }, null, 2));
+      } else {
+        console.log(`Cleared the texture cache at: ${cache.getDirectory()}`);
+      }
+      break;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import path from 'path';
+
+import ArgumentParser from '../../lib/ArgumentParser.js';
+import DuMeshTransformer from '../../lib/DuMeshTransformer.js';
+import { GameDirectorySource } from '../../lib/GameDirectory.js';
+import { loadComposeLayoutFile } from '../../lib/SceneComposer.js';
+import { addPipelineOptions, attachEventLogging, getPipelineSplitMode, loadPipelineElementLibrary, loadPipelineMaterials, loadPipelinePreset, printGameDirectory, queuePipelineTransforms } from '../PipelineOptions.js';
+
+// These are the options we support via command-line
+const cli = addPipelineOptions(
+  new ArgumentParser()
+    .option({ name: 'output', alias: 'o', type: 'string', valueName: 'file', description: 'Where to save the scene, defaults to "<layout>.out.glb" next to the layout file' })
+)
+  .option({ name: 'help', alias: 'h', type: 'boolean', description: 'Shows this help text' });
+
+/**
+ * Assembles multiple constructs into a single scene, following a layout file
+ */
+export default async function ComposeCommand(args: string[]) {
+  const isDebugEnabled = !!JSON.parse(process.env.debug || 'false');
+  const { options, positionals: [layoutPath, customGameDirectory] } = cli.parse(args);
+
+  // Help text
+  if (options['help'] || !layoutPath) {
+    console.log(cli.getHelpText('du-gltf compose [options] <layout.json> [gameDirectory]'));
+    return;
+  }
+
+  // Loads the layout, along with the preset and element library so we fail early on invalid ones
+  const layout = await loadComposeLayoutFile(layoutPath);
+  const splitBy = getPipelineSplitMode(options);
+  const preset = await loadPipelinePreset(options);
+  const elementLibrary = await loadPipelineElementLibrary(options);
+
+  if (customGameDirectory && customGameDirectory.length > 0) {
+    printGameDirectory(customGameDirectory, GameDirectorySource.CUSTOM);
+  } else {
+    const location = DuMeshTransformer.locateGameInstallationDirectory();
+    printGameDirectory(location?.directory || null, location?.source || null);
+  }
+
+  // Each construct goes through the same pipeline as when converting it on its own
+  const scene = await DuMeshTransformer.compose(layout, {
+    materialDefinitions: await loadPipelineMaterials(options),
+    unitScale: (options['unit-scale'] as number | undefined) ?? preset.unitScale ?? 1,
+    prepare: (transformer, construct) => {
+      console.log(`Processing construct: ${construct.file}`);
+      if (customGameDirectory && customGameDirectory.length > 0) {
+        transformer.setGameInstallationDirectory(customGameDirectory);
+      }
+
+      attachEventLogging(transformer, isDebugEnabled);
+      queuePipelineTransforms(transformer, options, preset, elementLibrary);
+    },
+  });
+
+  // Gets the file names, the output format can also be picked from the output extension
+  const outputFile = (options['output'] as string | undefined) || path.join(path.dirname(layoutPath), `${path.basename(layoutPath, path.extname(layoutPath))}.out`);
+  const saveAsJson = !!options['gltf'] || path.extname(outputFile).toLowerCase() == '.gltf';
+
+  if (splitBy) {
+    const files = await scene.saveSplitToFiles(outputFile, splitBy, saveAsJson);
+    console.log(`Scene with ${layout.constructs.length} constructs saved successfully into ${files.length} files!`);
+    files.forEach(file => console.log(`Save location: ${file}`));
+  } else {
+    const savedFile = await scene.saveToFile(outputFile, saveAsJson);
+    console.log(`Scene with ${layout.constructs.length} constructs saved successfully!`);
+    console.log(`Save location: ${savedFile}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,95 @@
+import path from 'path';
+
+import ArgumentParser from '../../lib/ArgumentParser.js';
+import DuMeshTransformer from '../../lib/DuMeshTransformer.js';
+import UserConfig, { UserConfigData, UserConfigKeys } from '../../lib/UserConfig.js';
+import { listGameDirectoryCandidates, isValidGameDirectory } from '../../lib/GameDirectory.js';
+
+// These are the options we support via command-line
+const cli = new ArgumentParser()
+  .option({ name: 'help', alias: 'h', type: 'boolean', description: 'Shows this help text' });
+
+// The usage text, since we have multiple actions
+const usage = [
+  'du-gltf config set <key> <value>',
+  '       du-gltf config get <key>',
+  '       du-gltf config unset <key>',
+  '       du-gltf config list',
+  '',
+  `Available keys: ${Object.keys(UserConfigKeys).join(', ')}`,
+].join('\n');
+
+// Gets the config key from its command-line name
+function getConfigKey(key: string) {
+  if (!UserConfigKeys[key]) {
+    throw new Error(`Unknown config key "${key}", available keys: ${Object.keys(UserConfigKeys).join(', ')}`);
+  }
+
+  return UserConfigKeys[key];
+}
+
+// Sets a config value, letting the user know when a broken config file gets replaced
+async function setConfigValue(key: keyof UserConfigData, value: string | undefined) {
+  if (UserConfig.tryLoad() === null) {
+    console.warn('[WARNING]', `Replacing invalid config file at "${UserConfig.getFile()}"`);
+  }
+
+  await UserConfig.set(key, value);
+}
+
+/**
+ * Manages the persistent user configuration
+ */
+export default async function ConfigCommand(args: string[]) {
+  const { options, positionals: [action, key, value] } = cli.parse(args);
+
+  switch (options['help'] ? null : action) {
+    case 'set':
+      if (!key || !value) {
+        throw new Error(`Missing key or value, usage: du-gltf config set <key> <value>`);
+      }
+
+      // Game directories are validated right away, so we don't find out about mistakes only when processing
+      const configKey = getConfigKey(key);
+      const directory = path.resolve(value);
+      if (configKey == 'gameDirectory' && !isValidGameDirectory(directory)) {
+        throw new Error(`Invalid game directory: ${directory}`);
+      }
+
+      await setConfigValue(configKey, directory);
+      console.log(`Set ${key} to: ${directory}`);
+      break;
+
+    case 'get':
+      console.log(UserConfig.get(getConfigKey(key)) || '');
+      break;
+
+    case 'unset':
+      await setConfigValue(getConfigKey(key), undefined);
+      console.log(`Removed ${key}`);
+      break;
+
+    case 'list':
+      const config = UserConfig.load();
+      console.log(`Config file: ${UserConfig.getFile()}`);
+      for (const [name, configKey] of Object.entries(UserConfigKeys)) {
+        console.log(`  ${name}: ${config[configKey] || '(not set)'}`);
+      }
+
+      // Also shows where we'd find the game, helps with troubleshooting
+      const location = DuMeshTransformer.locateGameInstallationDirectory();
+      console.log('');
+      console.log(location
+        ? `Game directory in use: ${location.directory} (from ${location.source})`
+        : `Game directory in use: (not found)`
+      );
+      console.log(`Checked locations:`);
+      for (const candidate of listGameDirectoryCandidates()) {
+        console.log(`  [${candidate.source}] ${candidate.directory}${isValidGameDirectory(candidate.directory) ? ' (valid)' : ''}`);
+      }
+      break;
+
+    default:
+      console.log(cli.getHelpText(usage));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import path from 'path';
+
+import ArgumentParser from '../../lib/ArgumentParser.js';
+import DuMeshTransformer from '../../lib/DuMeshTransformer.js';
+import { addPipelineOptions, attachEventLogging, getPipelineSplitMode, loadPipelineElementLibrary, loadPipelineMaterials, loadPipelinePreset, printGameDirectory, queuePipelineTransforms } from '../PipelineOptions.js';
+
+// These are the options we support via command-line
+const cli = addPipelineOptions(
+  new ArgumentParser()
+    .option({ name: 'output', alias: 'o', type: 'string', valueName: 'file', description: 'Where to save the processed file, defaults to "<name>.out.glb" next to the input' })
+)
+  .option({ name: 'help', alias: 'h', type: 'boolean', description: 'Shows this help text' })
+  .option({ name: 'version', alias: 'v', type: 'boolean', description: 'Shows the version number' });
+
+/**
+ * Processes a single file, this is the default command
+ */
+export default async function ConvertCommand(args: string[]) {
+  const isDebugEnabled = !!JSON.parse(process.env.debug || 'false');
+  const { options, positionals: [modelPath, customGameDirectory] } = cli.parse(args);
+
+  // Help text
+  if (options['help']) {
+    console.log(cli.getHelpText([
+      'du-gltf [options] <model> [gameDirectory]',
+      '       du-gltf batch [options] <directory|glob> [gameDirectory]',
+      '       du-gltf watch [options] <directory> [gameDirectory]',
+      '       du-gltf cache <inspect|prune|clear> [options]',
+      '       du-gltf materials verify [options] [gameDirectory]',
+      '       du-gltf elements learn [options] <labelledFile>',
+      '       du-gltf inspect [options] <model>',
+      '       du-gltf compose [options] <layout.json> [gameDirectory]',
+      '       du-gltf config <set|get|unset|list> [key] [value]',
+    ].join('\n')));
+    return;
+  }
+
+  // Handles cases where no model is passed
+  if (!modelPath || modelPath.length == 0) {
+    console.info(`Missing model path as first parameter, make sure you supply a valid glTF file!`);
+    console.info(`Optionally, you can also supply the game directory if you have a custom installation.`);
+    console.info(`Run with --help for a list of available options.`);
+    return;
+  }
+
+  // Loads our mesh, along with the preset and element library so we fail early on invalid ones
+  const splitBy = getPipelineSplitMode(options);
+  const preset = await loadPipelinePreset(options);
+  const elementLibrary = await loadPipelineElementLibrary(options);
+  console.log(`Loading file for processing: ${modelPath}`);
+  const meshTransformer = await DuMeshTransformer.fromFile(modelPath, await loadPipelineMaterials(options));
+
+  // Optionally set our game directory
+  if (customGameDirectory && customGameDirectory.length > 0) {
+    meshTransformer.setGameInstallationDirectory(customGameDirectory);
+  }
+  printGameDirectory(meshTransformer.getGameInstallationDirectory(), meshTransformer.getGameInstallationSource());
+
+  // Prints warnings and debug information
+  attachEventLogging(meshTransformer, isDebugEnabled);
+
+  // Gets the file names, the output format can also be picked from the output extension
+  const dir = path.dirname(modelPath);
+  const basename = path.basename(modelPath, path.extname(modelPath));
+  const outputFile = (options['output'] as string | undefined) || path.join(dir, `${basename}.out`);
+  const saveAsJson = !!options['gltf'] || path.extname(outputFile).toLowerCase() == '.gltf';
+
+  // Processes our mesh as desired and saves it
+  if (!isDebugEnabled) {
+    console.log('Mesh processing started!');
+  }
+  queuePipelineTransforms(meshTransformer, options, preset, elementLibrary);
+  if (splitBy) {
+    const files = await meshTransformer.saveSplitToFiles(outputFile, splitBy, saveAsJson);
+    console.log(`Mesh saved successfully into ${files.length} files!`);
+    files.forEach(file => console.log(`Save location: ${file}`));
+  } else {
+    const savedFile = await meshTransformer.saveToFile(outputFile, saveAsJson);
+    console.log(`Mesh saved successfully!`);
+    console.log(`Save location: ${savedFile}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { existsSync as fileExists } from 'fs';
+
+import ArgumentParser from '../../lib/ArgumentParser.js';
+import DuMeshTransformer from '../../lib/DuMeshTransformer.js';
+import { formatTable } from '../../lib/TextTable.js';
+import { ElementLibrary, getElementFingerprint, getUserElementLibraryFile, loadElementLibraryFile, saveElementLibraryFile } from '../../lib/ElementLibrary.js';
+
+// These are the options we support via command-line
+const cli = new ArgumentParser()
+  .option({ name: 'library', type: 'string', valueName: 'file', description: 'The element library to update (default: the user library)' })
+  .option({ name: 'all', type: 'boolean', description: 'Learns every named mesh, not only the elements separated by du-gltf' })
+  .option({ name: 'overwrite', type: 'boolean', description: 'Renames elements already in the library' })
+  .option({ name: 'tag', type: 'string', valueName: 'tag', multiple: true, description: 'Adds a tag to every learned element, can be used multiple times' })
+  .option({ name: 'json', type: 'boolean', description: 'Outputs as JSON' })
+  .option({ name: 'help', alias: 'h', type: 'boolean', description: 'Shows this help text' });
+
+// Names we give to elements ourselves, which aren't labels
+const GENERATED_NAME_PATTERN = /\((Group \d+|Isolated)\)$/;
+
+// Suffix added to nodes when generating LODs as separate nodes (or for the MSFT_lod extension)
+const LOD_SUFFIX_PATTERN = /_LOD(\d+)$/;
+
+type LearnResult = { name: string, fingerprint: string, result: string };
+
+/**
+ * Tools for dealing with the element library
+ */
+export default async function ElementsCommand(args: string[]) {
+  const { options, positionals: [action, labelledFile] } = cli.parse(args);
+
+  // Help text
+  if (options['help'] || action != 'learn' || !labelledFile) {
+    console.log(cli.getHelpText('du-gltf elements learn [options] <labelledFile>'));
+    return;
+  }
+
+  // Loads the library we'll be adding into, it's fine if it doesn't exist yet
+  const libraryFile = (options['library'] as string | undefined) || getUserElementLibraryFile();
+  const library: ElementLibrary = fileExists(libraryFile)
+    ? await loadElementLibraryFile(libraryFile)
+    : { elements: {} };
+
+  // We only need the geometry, so no material definitions are loaded
+  // Lower levels of detail are copies of the same elements, so only the first level is learned
+  const transformer = await DuMeshTransformer.fromFile(labelledFile, { items: {} });
+  const nodes = transformer.getDocumentRoot().listNodes()
+    .filter(node => parseInt(node.getName().match(LOD_SUFFIX_PATTERN)?.[1] || '0') == 0);
+
+  // Our node names start with the name of the original file, which we find from the nodes that weren't renamed
+  const namePrefixes = nodes.map(node => node.getName().replace(LOD_SUFFIX_PATTERN, ''))
+    .filter(name => GENERATED_NAME_PATTERN.test(name) && name.includes(': '))
+    .map(name => name.slice(0, name.indexOf(': ') + 2));
+
+  const results: LearnResult[] = [];
+  for (const node of nodes) {
+    const mesh = node.getMesh();
+    if (!mesh || (!options['all'] && !node.getExtras()['fingerprint'])) {
+      continue;
+    }
+
+    // The fingerprint saved when separating is preferred, as LODs or optimizations can change the geometry afterwards
+    const fingerprint = (node.getExtras()['fingerprint'] as string | undefined) || getElementFingerprint(mesh);
+    const nodeName = node.getName().replace(LOD_SUFFIX_PATTERN, '');
+    const namePrefix = namePrefixes.find(prefix => nodeName.startsWith(prefix));
+    const name = namePrefix
+      ? nodeName.slice(namePrefix.length)
+      : nodeName;
+
+    const knownElement = library.elements[fingerprint];
+    if (!name || GENERATED_NAME_PATTERN.test(name)) {
+      results.push({ name, fingerprint, result: knownElement ? `known as "${knownElement.name}"` : 'skipped, not labelled' });
+    } else if (knownElement && !options['overwrite']) {
+      results.push({ name, fingerprint, result: knownElement.name == name ? 'known' : `known as "${knownElement.name}"` });
+    } else {
+      results.push({ name, fingerprint, result: knownElement ? 'renamed' : 'learned' });
+      library.elements[fingerprint] = {
+        ...knownElement,
+        name,
+        ...(options['tag'] ? { tags: options['tag'] as string[] } : {}),
+      };
+    }
+  }
+
+  const changes = results.filter(({ result }) => ['learned', 'renamed'].includes(result)).length;
+  if (changes > 0) {
+    await saveElementLibraryFile(libraryFile, library);
+  }
+
+  if (options['json']) {
+    console.log(JSON.stringify({ library: libraryFile, changes, elements: results }, null, 2));
+  } else {
+    if (results.length > 0) {
+      console.log(formatTable(['Name', 'Fingerprint', 'Result'], results.map(({ name, fingerprint, result }) => [name, fingerprint, result])));
+      console.log('');
+    }
+    console.log(`${changes} element(s) saved into: ${libraryFile}`);
+  }
+}
\ No newline at end of file
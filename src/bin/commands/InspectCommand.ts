@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+
+import ArgumentParser from '../../lib/ArgumentParser.js';
+import DuMeshTransformer from '../../lib/DuMeshTransformer.js';
+import { formatConstructAnalysis, formatConstructAnalysisHtml } from '../../lib/ConstructAnalyzer.js';
+import { formatHoneycombEstimate, formatHoneycombEstimateCsv } from '../../lib/HoneycombEstimator.js';
+import { loadPipelineElementLibrary, loadPipelineMaterials } from '../PipelineOptions.js';
+
+// These are the options we support via command-line
+const cli = new ArgumentParser()
+  .option({ name: 'materials', type: 'string', valueName: 'file', multiple: true, description: 'Applies material overrides from a file, can be used multiple times' })
+  .option({ name: 'elements', type: 'string', valueName: 'file', multiple: true, description: 'Names elements using an element library file, can be used multiple times' })
+  .option({ name: 'honeycomb', type: 'boolean', description: 'Estimates the volume of each honeycomb material instead, for build planning' })
+  .option({ name: 'json', type: 'boolean', description: 'Outputs as JSON' })
+  .option({ name: 'html', type: 'boolean', description: 'Outputs as a standalone HTML page' })
+  .option({ name: 'csv', type: 'boolean', description: 'Outputs as CSV, only for the honeycomb estimate' })
+  .option({ name: 'output', alias: 'o', type: 'string', valueName: 'file', description: 'Saves the report into a file instead of printing it' })
+  .option({ name: 'help', alias: 'h', type: 'boolean', description: 'Shows this help text' });
+
+/**
+ * Reports what's in an exported construct, without processing it
+ */
+export default async function InspectCommand(args: string[]) {
+  const { options, positionals: [modelPath] } = cli.parse(args);
+
+  // Help text
+  if (options['help'] || !modelPath) {
+    console.log(cli.getHelpText('du-gltf inspect [options] <model>'));
+    return;
+  }
+
+  if ([options['json'], options['html'], options['csv']].filter(enabled => !!enabled).length > 1) {
+    throw new Error(`Only one of --json, --html and --csv can be used at a time`);
+  }
+  if (options['honeycomb'] ? options['html'] : options['csv']) {
+    throw new Error(options['honeycomb']
+      ? `The honeycomb estimate can only be output as text, JSON or CSV`
+      : `CSV output is only available for the honeycomb estimate, use it along with --honeycomb`
+    );
+  }
+
+  // Loads our mesh along with the material definitions and element library, so matches are reported the same way as when processing
+  const elementLibrary = await loadPipelineElementLibrary(options);
+  const meshTransformer = (await DuMeshTransformer.fromFile(modelPath, await loadPipelineMaterials(options)))
+    .setElementLibrary(elementLibrary);
+
+  let report: string;
+  if (options['honeycomb']) {
+    const estimate = meshTransformer.estimateHoneycomb();
+    report = options['json']
+      ? JSON.stringify(estimate, null, 2)
+      : options['csv']
+        ? formatHoneycombEstimateCsv(estimate)
+        : formatHoneycombEstimate(estimate);
+  } else {
+    const analysis = meshTransformer.analyze();
+    report = options['json']
+      ? JSON.stringify(analysis, null, 2)
+      : options['html']
+        ? formatConstructAnalysisHtml(analysis)
+        : formatConstructAnalysis(analysis);
+  }
+
+  const outputFile = options['output'] as string | undefined;
+  if (outputFile) {
+    await fs.writeFile(outputFile, report);
+    if (!options['json'] && !options['html'] && !options['csv']) {
+      console.log(`Report saved into: ${outputFile}`);
+    }
+  } else {
+    console.log(report);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import path from 'path';
+
+import ArgumentParser from '../../lib/ArgumentParser.js';
+import DuMeshTransformer from '../../lib/DuMeshTransformer.js';
+import { formatMaterialVerificationReport, verifyMaterialDefinitions } from '../../lib/MaterialVerifier.js';
+
+// These are the options we support via command-line
+const cli = new ArgumentParser()
+  .option({ name: 'materials', type: 'string', valueName: 'file', multiple: true, description: 'Applies material overrides from a file, can be used multiple times' })
+  .option({ name: 'json', type: 'boolean', description: 'Outputs as JSON' })
+  .option({ name: 'help', alias: 'h', type: 'boolean', description: 'Shows this help text' });
+
+/**
+ * Tools for dealing with material definitions
+ */
+export default async function MaterialsCommand(args: string[]) {
+  const { options, positionals: [action, customGameDirectory] } = cli.parse(args);
+
+  // Help text
+  if (options['help'] || action != 'verify') {
+    console.log(cli.getHelpText('du-gltf materials verify [options] [gameDirectory]'));
+    return;
+  }
+
+  // Finds our game directory
+  const gameDirectory = customGameDirectory || DuMeshTransformer.findGameInstallationDirectory();
+  if (!gameDirectory || !DuMeshTransformer.isValidGameInstallationDirectory(gameDirectory)) {
+    throw new Error(gameDirectory
+      ? `Invalid game directory: ${gameDirectory}`
+      : `Could not find the game directory, make sure you supply it as a parameter!`
+    );
+  }
+
+  // Runs our checks
+  const materialDefinitions = await DuMeshTransformer.loadMaterialDefinitions((options['materials'] as string[] | undefined) || []);
+  const report = await verifyMaterialDefinitions(materialDefinitions, path.join(gameDirectory, 'Game', 'data'));
+
+  console.log(options['json']
+    ? JSON.stringify(report, null, 2)
+    : formatMaterialVerificationReport(report)
+  );
+
+  // Signals issues through our exit code
+  return report.issues.length > 0 ? 1 : 0;
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs';
+
+import ArgumentParser from '../../lib/ArgumentParser.js';
+import DuMeshTransformer from '../../lib/DuMeshTransformer.js';
+import { GameDirectorySource } from '../../lib/GameDirectory.js';
+import BatchProcessor, { BatchFileResult, BatchFileStatus } from '../../lib/BatchProcessor.js';
+import ExportWatcher, { WatchEventType } from '../../lib/ExportWatcher.js';
+import { addPipelineOptions, attachEventLogging, getPipelineSplitMode, loadPipelineElementLibrary, loadPipelineMaterials, loadPipelinePreset, printGameDirectory, queuePipelineTransforms } from '../PipelineOptions.js';
+
+// These are the options we support via command-line
+const cli = addPipelineOptions(
+  new ArgumentParser()
+    .option({ name: 'output', alias: 'o', type: 'string', valueName: 'directory', description: 'Where to save the processed files, defaults to "<name>.out.glb" next to each input' })
+    .option({ name: 'debounce', type: 'number', valueName: 'ms', description: 'How long a file must stay unchanged before processing (default: 1000)' })
+)
+  .option({ name: 'help', alias: 'h', type: 'boolean', description: 'Shows this help text' });
+
+/**
+ * Watches a directory and processes any new exports
+ */
+export default async function WatchCommand(args: string[]) {
+  const isDebugEnabled = !!JSON.parse(process.env.debug || 'false');
+  const { options, positionals: [directory, customGameDirectory] } = cli.parse(args);
+
+  // Help text
+  if (options['help'] || !directory) {
+    console.log(cli.getHelpText('du-gltf watch [options] <directory> [gameDirectory]'));
+    return;
+  }
+
+  // Shows which game directory we're using
+  if (customGameDirectory && customGameDirectory.length > 0) {
+    printGameDirectory(customGameDirectory, GameDirectorySource.CUSTOM);
+  } else {
+    const location = DuMeshTransformer.locateGameInstallationDirectory();
+    printGameDirectory(location?.directory || null, location?.source || null);
+  }
+
+  // Output can be redirected into another directory
+  const outputDirectory = options['output'] as string | undefined;
+  if (outputDirectory) {
+    await fs.mkdir(outputDirectory, { recursive: true });
+  }
+
+  // The processor is kept for the whole session, so materials and textures are only loaded once
+  const preset = await loadPipelinePreset(options);
+  const elementLibrary = await loadPipelineElementLibrary(options);
+  const processor = new BatchProcessor({
+    saveAsJson: !!options['gltf'],
+    splitBy: getPipelineSplitMode(options),
+    materialDefinitions: await loadPipelineMaterials(options),
+    getOutputFile: (file) => outputDirectory
+      ? BatchProcessor.getOutputFileInDirectory(file, directory, outputDirectory)
+      : BatchProcessor.getDefaultOutputFile(file),
+    prepare: (transformer) => {
+      if (customGameDirectory && customGameDirectory.length > 0) {
+        transformer.setGameInstallationDirectory(customGameDirectory);
+      }
+
+      attachEventLogging(transformer, isDebugEnabled);
+      queuePipelineTransforms(transformer, options, preset, elementLibrary);
+    },
+  });
+
+  // Starts watching
+  const watcher = new ExportWatcher(directory, processor, { debounceMs: options['debounce'] as number | undefined });
+  watcher.events().on(WatchEventType.FILE_PROCESSING, (file: string) => console.log(`Processing: ${file}`));
+  watcher.events().on(WatchEventType.FILE_PROCESSED, (result: BatchFileResult) => {
+    if (result.status == BatchFileStatus.FAILURE) {
+      console.error(`Failed: ${result.file}`);
+      console.error(isDebugEnabled ? result.error : result.error?.message);
+    } else {
+      console.log(`Saved: ${result.outputFile} (${(result.duration / 1000).toFixed(1)}s)`);
+    }
+  });
+  watcher.events().on(WatchEventType.ERROR, (err: Error) => console.error('[ERROR]', err.message));
+  watcher.start();
+
+  console.log(`Watching for new exports in: ${directory}`);
+  console.log(`Press Ctrl+C to stop.`);
+
+  // Keeps running until interrupted, then lets the file being processed finish so it's not left half-written
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', () => {
+      if (watcher.isBusy()) {
+        console.log(`Waiting for the current file to finish, press Ctrl+C again to abort...`);
+      }
+      watcher.stop().then(resolve);
+    });
+  });
+}
\ No newline at end of file
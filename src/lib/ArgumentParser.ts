@@ -0,0 +1,156 @@
+export type ArgumentOptionType = 'boolean' | 'string' | 'number';
+export type ArgumentOptionValue = boolean | string | number;
+
+export type ArgumentOption = {
+  name: string;
+  alias?: string;
+  type: ArgumentOptionType;
+  description: string;
+  valueName?: string;
+  // Allows for the option to be passed multiple times, values are collected into an array
+  multiple?: boolean;
+};
+
+export type ParsedArguments = {
+  options: Record<string, ArgumentOptionValue | ArgumentOptionValue[] | undefined>;
+  positionals: string[];
+};
+
+/**
+ * A minimal command-line parser, supports "--name value", "--name=value", "-a value" and "--no-name" for booleans
+ */
+export default class ArgumentParser {
+  // The list of options we know about
+  private options: ArgumentOption[] = [];
+
+  /**
+   * Registers a new option
+   */
+  public option(option: ArgumentOption): ArgumentParser {
+    this.options.push(option);
+    return this;
+  }
+
+  /**
+   * Finds an option by its name or alias
+   */
+  private findOption(name: string): ArgumentOption | null {
+    return this.options.find(option => option.name === name || option.alias === name) || null;
+  }
+
+  /**
+   * Converts a raw value into the type expected by the option
+   */
+  private convertValue(option: ArgumentOption, value: string): ArgumentOptionValue {
+    switch (option.type) {
+      case 'number':
+        const number = parseFloat(value);
+        if (isNaN(number)) {
+          throw new Error(`Option --${option.name} expects a number, got "${value}"`);
+        }
+        return number;
+      case 'boolean':
+        if (!['true', 'false', '1', '0'].includes(value)) {
+          throw new Error(`Option --${option.name} expects a boolean, got "${value}"`);
+        }
+        return ['true', '1'].includes(value);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Parses a list of arguments (usually process.argv without the first two entries)
+   */
+  public parse(args: string[]): ParsedArguments {
+    const result: ParsedArguments = { options: {}, positionals: [] };
+
+    for (let idx = 0; idx < args.length; idx++) {
+      const arg = args[idx];
+
+      // Everything after "--" is treated as positional
+      if (arg === '--') {
+        result.positionals.push(...args.slice(idx + 1));
+        break;
+      }
+
+      // Anything not starting with a dash (or a single dash) is positional
+      if (!arg.startsWith('-') || arg === '-') {
+        result.positionals.push(arg);
+        continue;
+      }
+
+      // Splits "--name=value" and strips the dashes
+      const isLong = arg.startsWith('--');
+      const [rawName, ...rawValueParts] = arg.slice(isLong ? 2 : 1).split('=');
+      const inlineValue = rawValueParts.length > 0 ? rawValueParts.join('=') : undefined;
+
+      // Handles the "--no-name" boolean negation
+      const option = this.findOption(rawName);
+      if (!option && isLong && rawName.startsWith('no-')) {
+        const negatedOption = this.findOption(rawName.slice(3));
+        if (negatedOption && negatedOption.type === 'boolean' && inlineValue === undefined) {
+          result.options[negatedOption.name] = false;
+          continue;
+        }
+      }
+
+      if (!option) {
+        throw new Error(`Unknown option: ${arg}`);
+      }
+
+      // Booleans don't consume the next argument
+      if (option.type === 'boolean') {
+        result.options[option.name] = (inlineValue !== undefined)
+          ? this.convertValue(option, inlineValue)
+          : true;
+        continue;
+      }
+
+      // Everything else needs a value
+      let value = inlineValue;
+      if (value === undefined) {
+        if (idx + 1 >= args.length) {
+          throw new Error(`Option --${option.name} requires a value`);
+        }
+        value = args[++idx];
+      }
+      if (option.multiple) {
+        result.options[option.name] = [
+          ...((result.options[option.name] as ArgumentOptionValue[] | undefined) || []),
+          this.convertValue(option, value),
+        ];
+      } else {
+        result.options[option.name] = this.convertValue(option, value);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Generates the help text for the registered options
+   */
+  public getHelpText(usage: string): string {
+    const lines = this.options.map((option) => {
+      const flags = [
+        option.alias ? `-${option.alias}` : null,
+        `--${option.name}`,
+      ].filter(flag => !!flag).join(', ');
+
+      const value = option.type !== 'boolean'
+        ? ` <${option.valueName || option.type}>${option.multiple ? '...' : ''}`
+        : '';
+
+      return [`${flags}${value}`, option.description];
+    });
+
+    const padding = Math.max(...lines.map(([flags]) => flags.length)) + 2;
+    return [
+      `Usage: ${usage}`,
+      ``,
+      `Options:`,
+      ...lines.map(([flags, description]) => `  ${flags.padEnd(padding)}${description}`),
+    ].join('\n');
+  }
+}
\ No newline at end of file
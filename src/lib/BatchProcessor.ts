@@ -0,0 +1,242 @@
+import path from 'path';
+import { existsSync as fileExists, promises as fs } from 'fs';
+
+import DuMeshTransformer from './DuMeshTransformer';
+import DataCache from './DataCache';
+import { EventType, MaterialDefinitions } from './types';
+import { SplitMode } from './SplitOutput';
+
+export enum BatchFileStatus {
+  SUCCESS = 'success',
+  WARNING = 'warning',
+  FAILURE = 'failure',
+};
+
+export type BatchFileResult = {
+  file: string;
+  outputFile: string | null;
+  status: BatchFileStatus;
+  warnings: string[];
+  error: Error | null;
+  duration: number;
+};
+
+export type BatchProcessorOptions = {
+  // Queues the transforms for each file, this is where event listeners should also be attached
+  prepare: (transformer: DuMeshTransformer, file: string) => void | Promise<void>;
+  // Where each processed file is saved to
+  getOutputFile?: (file: string) => string;
+  // Saves as .gltf instead of .glb
+  saveAsJson?: boolean;
+  // Saves each material (or material category) into its own file, named after the output file
+  splitBy?: SplitMode | null;
+  // Custom material definitions, defaults to the ones bundled with the package
+  materialDefinitions?: MaterialDefinitions;
+};
+
+// These are the file extensions we're able to process
+const MODEL_EXTENSIONS = ['.gltf', '.glb'];
+
+// Files written by ourselves (including split ones, such as "<name>.out.hcombs_v2.glb"), we don't want to process those again
+const OUTPUT_FILE_PATTERN = /\.out(\.[\w-]+)?\.(gltf|glb)$/i;
+
+/**
+ * Processes many files in sequence, sharing material definitions and decoded textures between them
+ * A failure on a single file is recorded in its result and doesn't stop the remaining files from processing
+ */
+export default class BatchProcessor {
+  // Decoded textures and other data shared between all files
+  private sharedCache = new DataCache();
+
+  constructor(
+    private options: BatchProcessorOptions,
+  ) {}
+
+  /**
+   * Gets the default output file for a model, which is "<name>.out" next to it
+   */
+  public static getDefaultOutputFile(file: string): string {
+    return path.join(path.dirname(file), `${path.basename(file, path.extname(file))}.out`);
+  }
+
+  /**
+   * Gets the output file for a model saved into another directory
+   * The path relative to the input's base directory is kept, so same-named files from different folders don't overwrite each other
+   * @param baseDirectory The directory the input was found in, see getBaseDirectory
+   */
+  public static getOutputFileInDirectory(file: string, baseDirectory: string, outputDirectory: string): string {
+    return path.join(outputDirectory, path.relative(baseDirectory, BatchProcessor.getDefaultOutputFile(file)));
+  }
+
+  /**
+   * Checks whether a file is a model we can process (and not one we created ourselves)
+   */
+  public static isProcessableFile(file: string): boolean {
+    return MODEL_EXTENSIONS.includes(path.extname(file).toLowerCase())
+      && !OUTPUT_FILE_PATTERN.test(path.basename(file));
+  }
+
+  /**
+   * Lists all model files from either a single file, a directory or a glob pattern (supports *, ** and ?)
+   */
+  public static async findModelFiles(pattern: string): Promise<string[]> {
+    // Single files are always used as-is
+    if (fileExists(pattern) && (await fs.stat(pattern)).isFile()) {
+      return [pattern];
+    }
+
+    // Directories have all their models listed (non-recursively)
+    if (fileExists(pattern)) {
+      return (await fs.readdir(pattern))
+        .map(file => path.join(pattern, file))
+        .filter(BatchProcessor.isProcessableFile)
+        .sort();
+    }
+
+    // Splits the glob into a base directory and the actual pattern
+    const { baseDirectory, glob } = BatchProcessor.splitGlob(pattern);
+    const matcher = BatchProcessor.globToRegExp(glob);
+
+    // Walks the base directory looking for matches
+    const results: string[] = [];
+    const walk = async (directory: string, relativeDirectory: string) => {
+      for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+        const relativePath = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(path.join(directory, entry.name), relativePath);
+        } else if (matcher.test(relativePath) && BatchProcessor.isProcessableFile(entry.name)) {
+          results.push(path.join(directory, entry.name));
+        }
+      }
+    };
+    if (fileExists(baseDirectory)) {
+      await walk(baseDirectory, '');
+    }
+
+    return results.sort();
+  }
+
+  /**
+   * Gets the directory the files from a pattern are relative to: the directory itself, the one a single file is in, or the part of a glob before any wildcards
+   */
+  public static async getBaseDirectory(pattern: string): Promise<string> {
+    if (fileExists(pattern)) {
+      return (await fs.stat(pattern)).isFile() ? path.dirname(pattern) : pattern;
+    }
+
+    return BatchProcessor.splitGlob(pattern).baseDirectory;
+  }
+
+  /**
+   * Splits a glob pattern into the base directory and the pattern to match inside it
+   */
+  private static splitGlob(pattern: string): { baseDirectory: string, glob: string } {
+    const segments = pattern.split(path.sep === '\\' ? /[\\/]/ : '/');
+    const firstGlobSegment = segments.findIndex(segment => /[*?]/.test(segment));
+    if (firstGlobSegment < 0) {
+      throw new Error(`File or directory not found: ${pattern}`);
+    }
+
+    return {
+      baseDirectory: segments.slice(0, firstGlobSegment).join(path.sep) || '.',
+      glob: segments.slice(firstGlobSegment).join('/'),
+    };
+  }
+
+  /**
+   * Converts a glob pattern into a regular expression
+   */
+  private static globToRegExp(glob: string): RegExp {
+    let regex = '';
+    for (let idx = 0; idx < glob.length; idx++) {
+      const char = glob[idx];
+      if (char === '*' && glob[idx + 1] === '*') {
+        // "**/" matches any amount of directories, including none
+        if (glob[idx + 2] === '/') {
+          regex += '(?:.*/)?';
+          idx += 2;
+        } else {
+          regex += '.*';
+          idx++;
+        }
+      } else if (char === '*') {
+        regex += '[^/]*';
+      } else if (char === '?') {
+        regex += '[^/]';
+      } else {
+        regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${regex}$`, process.platform === 'win32' ? 'i' : '');
+  }
+
+  /**
+   * Gets the cache shared between all files
+   */
+  public getSharedCache(): DataCache {
+    return this.sharedCache;
+  }
+
+  /**
+   * Processes a single file, never throws, any errors are returned as part of the result
+   */
+  public async processFile(file: string): Promise<BatchFileResult> {
+    const startTime = Date.now();
+    const result: BatchFileResult = {
+      file: file,
+      outputFile: null,
+      status: BatchFileStatus.SUCCESS,
+      warnings: [],
+      error: null,
+      duration: 0,
+    };
+
+    try {
+      // Material definitions are only loaded once
+      if (!this.options.materialDefinitions) {
+        this.options.materialDefinitions = await DuMeshTransformer.loadMaterialDefinitions();
+      }
+
+      // Loads our mesh, sharing any decoded textures
+      const transformer = (await DuMeshTransformer.fromFile(file, this.options.materialDefinitions))
+        .setSharedCache(this.sharedCache);
+      transformer.events().on(EventType.WARNING, message => result.warnings.push(message));
+
+      // Queues and processes our transforms
+      await this.options.prepare(transformer, file);
+      const outputFile = (this.options.getOutputFile || BatchProcessor.getDefaultOutputFile)(file);
+      await fs.mkdir(path.dirname(outputFile), { recursive: true });
+      if (this.options.splitBy) {
+        await transformer.saveSplitToFiles(outputFile, this.options.splitBy, this.options.saveAsJson);
+        result.outputFile = outputFile;
+      } else {
+        result.outputFile = await transformer.saveToFile(outputFile, this.options.saveAsJson);
+      }
+
+      if (result.warnings.length > 0) {
+        result.status = BatchFileStatus.WARNING;
+      }
+    } catch (err) {
+      result.status = BatchFileStatus.FAILURE;
+      result.error = (err instanceof Error) ? err : new Error(`${err}`);
+    }
+
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Processes a list of files in sequence
+   */
+  public async processFiles(files: string[], onFileProcessed?: (result: BatchFileResult, index: number) => void): Promise<BatchFileResult[]> {
+    const results: BatchFileResult[] = [];
+    for (const file of files) {
+      const result = await this.processFile(file);
+      results.push(result);
+      onFileProcessed && onFileProcessed(result, results.length - 1);
+    }
+
+    return results;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,316 @@
+import { Mesh, vec3 } from '@gltf-transform/core';
+
+import { MeshType } from './types';
+import DuMeshTransformer from './DuMeshTransformer';
+import { formatTable } from './TextTable';
+import { getPrimitiveTriangles } from './MeshGeometry';
+import { getElementBoundsSignature, getTrianglesFingerprint } from './ElementLibrary';
+import { findElementIslands } from './commands/ElementSeparationTransform';
+
+export type MeshAnalysis = {
+  name: string;
+  primitives: number;
+  triangles: number;
+  vertices: number;
+};
+
+export type MaterialAnalysis = {
+  // The glTF material name, which is the game title when matched
+  name: string;
+  itemId: string;
+  // Whether a material definition was found for this material
+  matched: boolean;
+  title: string | null;
+  category: string | null;
+  triangles: number;
+  // In square meters
+  surfaceArea: number;
+};
+
+export type ElementAnalysis = {
+  mesh: string;
+  triangles: number;
+  // The center of the element's bounding box, in the file's space
+  center: vec3;
+  size: vec3;
+  fingerprint: string;
+  boundsSignature: string;
+  // The name from the element library, when known
+  name: string | null;
+};
+
+export type ConstructAnalysis = {
+  name: string;
+  meshType: string;
+  coreSize: { meters: number, voxels: number };
+  bounds: { min: vec3, max: vec3, size: vec3 } | null;
+  triangles: number;
+  vertices: number;
+  meshes: MeshAnalysis[];
+  materials: MaterialAnalysis[];
+  unmatchedMaterials: string[];
+  elements: ElementAnalysis[];
+};
+
+// Helper function to get the area of a triangle
+function getTriangleArea([a, b, c]: number[][]): number {
+  const ab = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const ac = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  return Math.hypot(
+    ab[1] * ac[2] - ab[2] * ac[1],
+    ab[2] * ac[0] - ab[0] * ac[2],
+    ab[0] * ac[1] - ab[1] * ac[0],
+  ) / 2;
+}
+
+// Helper function to count the vertices on a mesh, accessors shared between primitives are only counted once
+function getVertexCount(mesh: Mesh): number {
+  return [...new Set(mesh.listPrimitives().map(primitive => primitive.getAttribute('POSITION')))]
+    .reduce((count, accessor) => count + (accessor?.getCount() || 0), 0);
+}
+
+// Helper function to format a vector in meters
+function formatVector(vector: number[]): string {
+  return vector.map(value => value.toFixed(3)).join(' x ');
+}
+
+// Helper function to escape text for HTML
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Gathers information about a construct, without changing it, so exports can be checked before processing them
+ * This reports the file as loaded, so any pending transforms aren't taken into account
+ */
+export function analyzeConstruct(transformer: DuMeshTransformer): ConstructAnalysis {
+  const root = transformer.getDocumentRoot();
+  const meshes = root.listMeshes();
+
+  // Geometry on each mesh
+  const meshAnalyses: MeshAnalysis[] = meshes.map(mesh => ({
+    name: mesh.getName(),
+    primitives: mesh.listPrimitives().length,
+    triangles: mesh.listPrimitives().reduce((count, primitive) => count + (primitive.getIndices() ? primitive.getIndices()!.getCount() / 3 : 0), 0),
+    vertices: getVertexCount(mesh),
+  }));
+
+  // The bounding box of every mesh, as placed by its nodes
+  const min: vec3 = [Infinity, Infinity, Infinity], max: vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const node of root.listNodes()) {
+    const mesh = node.getMesh();
+    if (!mesh) {
+      continue;
+    }
+
+    const matrix = node.getWorldMatrix();
+    for (const primitive of mesh.listPrimitives()) {
+      const primitiveVertexPosition = primitive.getAttribute('POSITION');
+      for (let idx = 0; idx < (primitiveVertexPosition?.getCount() || 0); idx++) {
+        const [x, y, z] = primitiveVertexPosition!.getElement(idx, []);
+        for (let axis = 0; axis < 3; axis++) {
+          const value = matrix[axis] * x + matrix[4 + axis] * y + matrix[8 + axis] * z + matrix[12 + axis];
+          min[axis] = Math.min(min[axis], value);
+          max[axis] = Math.max(max[axis], value);
+        }
+      }
+    }
+  }
+
+  // Surface area and triangles for each material
+  const materialAnalyses: MaterialAnalysis[] = root.listMaterials().map(material => {
+    const gameMaterial = transformer.getGameMaterialFromGltfMaterial(material);
+    const analysis: MaterialAnalysis = {
+      name: material.getName(),
+      itemId: transformer.getGameItemIdFromGltfMaterial(material),
+      matched: !!gameMaterial,
+      title: gameMaterial?.title || null,
+      category: gameMaterial?.category || null,
+      triangles: 0,
+      surfaceArea: 0,
+    };
+
+    for (const mesh of meshes) {
+      for (const primitive of mesh.listPrimitives().filter(primitive => primitive.getMaterial() === material)) {
+        const primitiveVertexPosition = primitive.getAttribute('POSITION');
+        if (!primitiveVertexPosition || !primitive.getIndices()) {
+          continue;
+        }
+
+        for (const vertexIds of getPrimitiveTriangles(primitive)) {
+          analysis.surfaceArea += getTriangleArea(vertexIds.map(id => primitiveVertexPosition.getElement(id, [])));
+          analysis.triangles++;
+        }
+      }
+    }
+
+    return analysis;
+  });
+
+  // Elements are found the same way as when separating them, with the first material being the "default" one
+  const elements: ElementAnalysis[] = [];
+  const defaultMaterial = root.listMaterials()[0];
+  if (defaultMaterial) {
+    for (const mesh of meshes) {
+      const node = root.listNodes().find(node => node.getMesh() == mesh);
+      const matrix = node?.getWorldMatrix();
+
+      for (const { primitive, islands } of findElementIslands(mesh, defaultMaterial)) {
+        const primitiveIndices = primitive.getIndices()!;
+        const primitiveVertexPosition = primitive.getAttribute('POSITION')!;
+
+        for (const triangleIds of islands) {
+          const triangles = triangleIds.map(triangleId => [0, 1, 2].map(i => primitiveVertexPosition.getElement(primitiveIndices.getScalar(triangleId * 3 + i), [])));
+          const islandMin = [Infinity, Infinity, Infinity], islandMax = [-Infinity, -Infinity, -Infinity];
+          for (const position of triangles.flat()) {
+            for (let axis = 0; axis < 3; axis++) {
+              islandMin[axis] = Math.min(islandMin[axis], position[axis]);
+              islandMax[axis] = Math.max(islandMax[axis], position[axis]);
+            }
+          }
+
+          const center = islandMin.map((value, axis) => (value + islandMax[axis]) / 2);
+          const fingerprint = getTrianglesFingerprint(triangles);
+          elements.push({
+            mesh: mesh.getName(),
+            triangles: triangleIds.length,
+            center: (matrix
+              ? [0, 1, 2].map(row => matrix[row] * center[0] + matrix[4 + row] * center[1] + matrix[8 + row] * center[2] + matrix[12 + row])
+              : center) as vec3,
+            size: islandMax.map((value, axis) => value - islandMin[axis]) as vec3,
+            fingerprint,
+            boundsSignature: getElementBoundsSignature(islandMin, islandMax),
+            name: transformer.getElementLibrary()?.elements[fingerprint]?.name || null,
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    name: transformer.getName(),
+    meshType: MeshType[transformer.getMeshType()],
+    coreSize: {
+      meters: transformer.getCoreSizeInMeters(),
+      voxels: transformer.getCoreSizeInVoxels(),
+    },
+    bounds: meshAnalyses.some(mesh => mesh.vertices > 0)
+      ? { min, max, size: max.map((value, axis) => value - min[axis]) as vec3 }
+      : null,
+    triangles: meshAnalyses.reduce((count, mesh) => count + mesh.triangles, 0),
+    vertices: meshAnalyses.reduce((count, mesh) => count + mesh.vertices, 0),
+    meshes: meshAnalyses,
+    materials: materialAnalyses,
+    unmatchedMaterials: materialAnalyses.filter(material => !material.matched).map(material => material.name),
+    elements,
+  };
+}
+
+/**
+ * Formats a construct analysis as text, for printing into the terminal
+ */
+export function formatConstructAnalysis(analysis: ConstructAnalysis): string {
+  const lines = [
+    `Construct: ${analysis.name}`,
+    `Mesh type: ${analysis.meshType}`,
+    `Core size: ${analysis.coreSize.meters}m (${analysis.coreSize.voxels} voxels)`,
+    `Bounding box: ${analysis.bounds ? `${formatVector(analysis.bounds.size)} (from ${formatVector(analysis.bounds.min)} to ${formatVector(analysis.bounds.max)})` : 'empty'}`,
+    `Geometry: ${analysis.triangles} triangles, ${analysis.vertices} vertices`,
+  ];
+
+  lines.push('', `Meshes (${analysis.meshes.length}):`, formatTable(
+    ['Name', 'Primitives', 'Triangles', 'Vertices'],
+    analysis.meshes.map(mesh => [mesh.name, `${mesh.primitives}`, `${mesh.triangles}`, `${mesh.vertices}`]),
+  ));
+
+  lines.push('', `Materials (${analysis.materials.length}):`, formatTable(
+    ['Name', 'Title', 'Item ID', 'Category', 'Triangles', 'Area (m2)', 'Matched'],
+    analysis.materials.map(material => [
+      material.name,
+      material.title || '-',
+      material.itemId,
+      material.category || '-',
+      `${material.triangles}`,
+      material.surfaceArea.toFixed(2),
+      material.matched ? 'yes' : 'no',
+    ]),
+  ));
+
+  if (analysis.unmatchedMaterials.length > 0) {
+    lines.push('', `Unmatched materials (${analysis.unmatchedMaterials.length}): ${analysis.unmatchedMaterials.join(', ')}`);
+  }
+
+  lines.push('', `Elements (${analysis.elements.length}):`);
+  if (analysis.elements.length > 0) {
+    lines.push(formatTable(
+      ['Name', 'Mesh', 'Triangles', 'Size', 'Center', 'Fingerprint'],
+      analysis.elements.map(element => [
+        element.name || '-',
+        element.mesh,
+        `${element.triangles}`,
+        formatVector(element.size),
+        formatVector(element.center),
+        element.fingerprint,
+      ]),
+    ));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats a construct analysis as a standalone HTML page
+ */
+export function formatConstructAnalysisHtml(analysis: ConstructAnalysis): string {
+  const table = (headers: string[], rows: string[][], rowClasses: string[] = []) => [
+    '<table>',
+    `<tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr>`,
+    ...rows.map((row, idx) => `<tr${rowClasses[idx] ? ` class="${rowClasses[idx]}"` : ''}>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`),
+    '</table>',
+  ].join('\n');
+
+  const summary: string[][] = [
+    ['Mesh type', analysis.meshType],
+    ['Core size', `${analysis.coreSize.meters}m (${analysis.coreSize.voxels} voxels)`],
+    ['Bounding box', analysis.bounds ? `${formatVector(analysis.bounds.size)} (from ${formatVector(analysis.bounds.min)} to ${formatVector(analysis.bounds.max)})` : 'empty'],
+    ['Triangles', `${analysis.triangles}`],
+    ['Vertices', `${analysis.vertices}`],
+    ['Unmatched materials', analysis.unmatchedMaterials.join(', ') || 'none'],
+  ];
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(analysis.name)} - du-gltf inspection</title>
+<style>
+body { font-family: sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; margin-bottom: 2em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+th { background: #eee; }
+tr.unmatched td { color: #b00; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(analysis.name)}</h1>
+${table(['Property', 'Value'], summary)}
+<h2>Meshes (${analysis.meshes.length})</h2>
+${table(
+  ['Name', 'Primitives', 'Triangles', 'Vertices'],
+  analysis.meshes.map(mesh => [mesh.name, `${mesh.primitives}`, `${mesh.triangles}`, `${mesh.vertices}`]),
+)}
+<h2>Materials (${analysis.materials.length})</h2>
+${table(
+  ['Name', 'Title', 'Item ID', 'Category', 'Triangles', 'Area (m²)', 'Matched'],
+  analysis.materials.map(material => [material.name, material.title || '-', material.itemId, material.category || '-', `${material.triangles}`, material.surfaceArea.toFixed(2), material.matched ? 'yes' : 'no']),
+  analysis.materials.map(material => material.matched ? '' : 'unmatched'),
+)}
+<h2>Elements (${analysis.elements.length})</h2>
+${table(
+  ['Name', 'Mesh', 'Triangles', 'Size', 'Center', 'Fingerprint'],
+  analysis.elements.map(element => [element.name || '-', element.mesh, `${element.triangles}`, formatVector(element.size), formatVector(element.center), element.fingerprint]),
+)}
+</body>
+</html>
+`;
+}
\ No newline at end of file
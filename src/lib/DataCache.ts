@@ -0,0 +1,65 @@
+/**
+ * Simple key-value storage for data that is expensive to compute
+ * Each DuMeshTransformer has its own, but a single instance can also be shared between many of them
+ */
+export default class DataCache {
+  // The actual cached data
+  private cachedData: Record<string, any> = {};
+
+  /**
+   * Accesses cached data, optionally providing a function to update it when nothing is found
+   */
+  public async remember<T>(key: string, fn?: () => T) {
+    if (this.cachedData[key] === undefined && fn) {
+      this.cachedData[key] = await fn();
+    }
+
+    return this.cachedData[key];
+  }
+
+  /**
+   * Accesses cached data, optionally providing a function to update it when nothing is found
+   * This variant allows for remembering multiple things under the same "category"
+   */
+  public async rememberMany<T>(category: string, key: string, fn?: () => T) {
+    if (this.cachedData[category] === undefined) {
+      this.cachedData[category] = {};
+    }
+
+    if (this.cachedData[category][key] === undefined && fn) {
+      this.cachedData[category][key] = await fn();
+    }
+
+    return this.cachedData[category][key];
+  }
+
+  /**
+   * Overwrites cached data
+   */
+  public setRemember<T>(key: string, data: T) {
+    this.cachedData[key] = data;
+  }
+
+  /**
+   * Overwrites cached data
+   * This variant allows for caching multiple things under the same "category"
+   */
+  public setRememberMany<T>(category: string, key: string, data: T) {
+    if (this.cachedData[category] === undefined) {
+      this.cachedData[category] = {};
+    }
+
+    this.cachedData[category][key] = data;
+  }
+
+  /**
+   * Removes cached data, either a single category/key or everything
+   */
+  public forget(key?: string) {
+    if (key === undefined) {
+      this.cachedData = {};
+    } else {
+      delete this.cachedData[key];
+    }
+  }
+}
\ No newline at end of file
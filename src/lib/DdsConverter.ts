@@ -1,7 +1,24 @@
-import { parseDDSHeader, decodeImage } from 'dds-ktx-parser';
+import { parseDDSHeader, decodeImage, ImageFormat } from 'dds-ktx-parser';
 import RgbaBuffer from './RgbaBuffer';
 
+// Formats that only store two channels (red and green), mostly used for normal maps
+const TWO_CHANNEL_FORMATS: ImageFormat[] = ['BC5'];
+
 export default class DdsConverter {
+  static getFormat(ddsStream: Buffer): ImageFormat {
+    const dds = parseDDSHeader(ddsStream);
+
+    if (!dds) {
+      throw new Error('Invalid DDS image!');
+    }
+
+    return dds.format;
+  }
+
+  static isTwoChannelFormat(format: ImageFormat): boolean {
+    return TWO_CHANNEL_FORMATS.includes(format);
+  }
+
   static convertToRgba(ddsStream: Buffer) {
     const dds = parseDDSHeader(ddsStream);
 
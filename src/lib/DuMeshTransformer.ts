@@ -1,6 +1,4 @@
 import path from 'path';
-import os from 'os';
-import { env } from 'process';
 import { existsSync as fileExists, promises as fs } from 'fs';
 import EventEmitter from 'node:events';
 
@@ -8,13 +6,34 @@ import { Document, JSONDocument, Material, NodeIO, Root, vec3 } from '@gltf-tran
 import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
 import BaseColorsTransform from './commands/BaseColorsTransform';
 
-import { CoreSize, EventType, MaterialDefinition, MaterialDefinitions, MaterialPair, MeshType, ProcessingQueueCommand, ProcessingQueueCommandFunction } from './types';
-import TexturesTransform from './commands/TexturesTransform';
+import { CoreSize, EventType, MaterialDefinition, MaterialDefinitions, MaterialPair, MaterialTextureTypes, MeshType, ProcessingQueueCommand, ProcessingQueueCommandFunction } from './types';
+import TexturesTransform, { CHANNEL_PACKINGS, TexturesTransformOptions } from './commands/TexturesTransform';
 import CreateUvMapsTransform from './commands/CreateUvMapsTransfrom';
 import HdrMaterialsTransform from './commands/HdrMaterialsTransform';
-import ElementSeparationTransform from './commands/ElementSeparationTransform';
+import ElementSeparationTransform, { ElementSeparationOptions } from './commands/ElementSeparationTransform';
+import ElementReplacementTransform, { ElementReplacements } from './commands/ElementReplacementTransform';
 import Package from './Package';
 import TranslateTransform from './commands/TranslateTransfrom';
+import ScaleTransform from './commands/ScaleTransform';
+import OriginTransform, { OriginMode } from './commands/OriginTransform';
+import LightmapUvsTransform from './commands/LightmapUvsTransform';
+import BakedAtlasTransform, { BakedAtlasOptions } from './commands/BakedAtlasTransform';
+import OptimizationTransform, { OptimizationOptions } from './commands/OptimizationTransform';
+import CoplanarMergeTransform, { CoplanarMergeOptions } from './commands/CoplanarMergeTransform';
+import LodTransform, { LodOptions } from './commands/LodTransform';
+import DataCache from './DataCache';
+import TextureCache from './TextureCache';
+import { GameDirectoryLocation, GameDirectorySource, isValidGameDirectory, locateGameDirectory } from './GameDirectory';
+import { MaterialVerificationReport, verifyMaterialDefinitions } from './MaterialVerifier';
+import { getDefaultMaterialOverrideFiles, loadMaterialOverridesFile, mergeMaterialDefinitions } from './MaterialLayers';
+import { UnwrapOptions } from './MeshUnwrapper';
+import { BUILTIN_EXPORT_PRESETS, ExportPreset, ExportPresets } from './ExportPresets';
+import { MSFTLod } from './MsftLodExtension';
+import { ElementLibrary } from './ElementLibrary';
+import { analyzeConstruct, ConstructAnalysis } from './ConstructAnalyzer';
+import { estimateHoneycomb, HoneycombEstimate } from './HoneycombEstimator';
+import { splitDocument, SplitMode } from './SplitOutput';
+import { addConstructToDocument, ComposeLayout, ComposeOptions, dedupeConstructMaterials, getConstructRotation, validateComposeLayout } from './SceneComposer';
 
 export default class DuMeshTransformer {
   // Keeps track of all commands on the current processing queue
@@ -23,11 +42,29 @@ export default class DuMeshTransformer {
   // The game installation directory
   private gameInstallationPath: string | null = null;
 
+  // Where the game installation directory came from
+  private gameInstallationSource: GameDirectorySource | null = null;
+
   // This is an event emitter for debugging
   private eventEmitter = new EventEmitter();
 
   // Let's store cached data here
-  private cachedData: Record<string, any> = {};
+  private cachedData = new DataCache();
+
+  // Cached data that can be shared between multiple transformers (decoded textures, etc)
+  private sharedCachedData = new DataCache();
+
+  // Persistent cache for decoded textures, disabled by default
+  private textureCache: TextureCache | null = null;
+
+  // Known elements, used to name separated elements by their fingerprint
+  private elementLibrary: ElementLibrary | null = null;
+
+  // Additional files written next to the .gltf file, keyed by their relative path
+  private extraFiles: Record<string, Uint8Array> = {};
+
+  // Dependencies for the glTF writer, such as compression encoders
+  private ioDependencies: Record<string, unknown> = {};
 
   // This is our object's name
   private objectName: string = 'Unnamed';
@@ -45,7 +82,7 @@ export default class DuMeshTransformer {
   private static getDocumentIo(): NodeIO {
   // This is our reader
     return new NodeIO()
-      .registerExtensions(ALL_EXTENSIONS);
+      .registerExtensions([...ALL_EXTENSIONS, MSFTLod]);
   }
 
   /**
@@ -189,22 +226,59 @@ export default class DuMeshTransformer {
     return !!this.gameInstallationPath;
   }
 
+  /**
+   * Checks whether a directory is a valid game installation
+   */
+  public static isValidGameInstallationDirectory(directory: string): boolean {
+    return isValidGameDirectory(directory);
+  }
+
+  /**
+   * Finds the game installation directory, along with where it was found
+   * Checks the DU_GAME_DIR environment variable, the user config, Wine/Proton prefixes and the Windows default, in that order
+   */
+  public static locateGameInstallationDirectory(): GameDirectoryLocation | null {
+    return locateGameDirectory();
+  }
+
+  /**
+   * Finds the game installation directory, if installed anywhere we know about
+   */
+  public static findGameInstallationDirectory(): string | null {
+    return DuMeshTransformer.locateGameInstallationDirectory()?.directory || null;
+  }
+
   /**
    * Sets the game installation directory to a custom path
    */
-  public setGameInstallationDirectory(directory: string): DuMeshTransformer {
+  public setGameInstallationDirectory(directory: string, source: GameDirectorySource = GameDirectorySource.CUSTOM): DuMeshTransformer {
     // Checks if we have a valid data directory
     if (
-      !fileExists(path.join(directory, 'Game', 'data'))
+      !DuMeshTransformer.isValidGameInstallationDirectory(directory)
     ) {
       throw new Error(`Invalid game directory: ${directory}`);
     }
 
     // Saves and allows for the next command
     this.gameInstallationPath = directory;
+    this.gameInstallationSource = source;
     return this;
   }
 
+  /**
+   * Gets the game installation directory (if provided)
+   */
+  public getGameInstallationDirectory(): string | null {
+    return this.gameInstallationPath;
+  }
+
+  /**
+   * Gets where the game directory came from (set manually, found via environment variable, config file, etc)
+   */
+  public getGameInstallationSource(): GameDirectorySource | null {
+    return this.gameInstallationSource;
+  }
+
   /**
    * Gets the game's data directory (if provided)
    */
@@ -215,23 +289,98 @@ export default class DuMeshTransformer {
       : null;
   }
 
+  /**
+   * Checks the material definitions against the game's data directory, reporting missing or corrupt textures and other issues
+   */
+  public async verifyMaterialDefinitions(): Promise<MaterialVerificationReport> {
+    const dataDir = this.getDataDirectory();
+    if (!dataDir) {
+      throw new Error(`Can't verify materials when game directory is missing!`);
+    }
+
+    return await verifyMaterialDefinitions(this.getMaterialDefinitions(), dataDir);
+  }
+
+  /**
+   * Reports the construct's size, geometry, materials and elements, without processing it
+   * Useful for checking exports before spending time on the full processing
+   */
+  public analyze(): ConstructAnalysis {
+    return analyzeConstruct(this);
+  }
+
+  /**
+   * Estimates the volume of each honeycomb material (in cubic meters, liters and voxels), without processing the construct
+   * Useful for build planning, elements and other non-honeycomb materials are not included
+   */
+  public estimateHoneycomb(): HoneycombEstimate {
+    return estimateHoneycomb(this);
+  }
+
   /**
    * Saves the file into a .glb or .gltb file
    * @param file The file you're saving to
    * @param saveAsJson Saves the file as .gltf instead of .glb, when enabled, a new directory is created per-mesh
+   * @returns The path of the written .glb or .gltf file
    */
-  public async saveToFile(file: string, saveAsJson: boolean = false) {
+  public async saveToFile(file: string, saveAsJson: boolean = false): Promise<string> {
     // Processes any pending changes
     await this.processQueue();
 
     // Gets the file names
-    const dir = path.dirname(file);
-    const ext = path.extname(file).toLowerCase();
-    const basename = ['.glb', '.gltf'].includes(ext)
-      ? path.basename(file, path.extname(file))
-      : path.basename(file);
+    const { dir, basename } = DuMeshTransformer.getOutputFileParts(file);
 
     // Writes the document
+    return await this.writeDocument(this.gltfDocument, dir, basename, saveAsJson);
+  }
+
+  /**
+   * Saves each material (or material category) into its own .glb or .gltf file, named "<file>.<material or category>.glb"
+   * All files keep the same origin, so they line up when imported together
+   * @param file The file you're saving to, used as the base name for each file
+   * @param splitBy Either "material" or "category" (such as hcombs_v2 or emissive), materials without a game material are saved as "other" when splitting by category
+   * @param saveAsJson Saves the files as .gltf instead of .glb, when enabled, a new directory is created per-file
+   * @returns The list of files written
+   */
+  public async saveSplitToFiles(file: string, splitBy: SplitMode = 'material', saveAsJson: boolean = false): Promise<string[]> {
+    if (!['material', 'category'].includes(splitBy)) {
+      throw new Error(`Invalid split mode "${splitBy}", must be either "material" or "category"`);
+    }
+
+    // Processes any pending changes
+    await this.processQueue();
+
+    // Gets the file names
+    const { dir, basename } = DuMeshTransformer.getOutputFileParts(file);
+
+    // Writes each part of the document
+    const files: string[] = [];
+    for (const { name, document, extraFiles } of await splitDocument(this, splitBy)) {
+      files.push(await this.writeDocument(document, dir, `${basename}.${name}`, saveAsJson, extraFiles));
+    }
+
+    return files;
+  }
+
+  /**
+   * Gets the directory and base name (without the .glb or .gltf extension) for a file we're saving to
+   */
+  private static getOutputFileParts(file: string): { dir: string, basename: string } {
+    const ext = path.extname(file).toLowerCase();
+    return {
+      dir: path.dirname(file),
+      basename: ['.glb', '.gltf'].includes(ext)
+        ? path.basename(file, path.extname(file))
+        : path.basename(file),
+    };
+  }
+
+  /**
+   * Writes a document as a .glb file, or as a .gltf file (with any additional files) in its own directory
+   * @param extraFiles Which of the additional files to write, defaults to all of them
+   * @returns The path of the written .glb or .gltf file
+   */
+  private async writeDocument(document: Document, dir: string, basename: string, saveAsJson: boolean, extraFiles: string[] = Object.keys(this.extraFiles)): Promise<string> {
     if (saveAsJson) {
       // Creates the directory so we can isolate all the files properly
       const finaldir = path.join(dir, basename);
@@ -240,28 +389,65 @@ export default class DuMeshTransformer {
       }
 
       // Writes actual file as .gltf
-      await DuMeshTransformer.getDocumentIo().write(
-        path.join(finaldir, `${basename}.gltf`),
-        this.gltfDocument,
+      const finalFile = path.join(finaldir, `${basename}.gltf`);
+      await DuMeshTransformer.getDocumentIo().registerDependencies(this.ioDependencies).write(
+        finalFile,
+        document,
       );
+
+      // Writes any additional files, such as repacked textures
+      for (const extraFile of extraFiles) {
+        const extraFilePath = path.join(finaldir, extraFile);
+        await fs.mkdir(path.dirname(extraFilePath), { recursive: true });
+        await fs.writeFile(extraFilePath, this.extraFiles[extraFile]);
+      }
+
+      return finalFile;
     } else {
+      // Additional files can't be embedded into a .glb
+      if (extraFiles.length > 0) {
+        this.notify(EventType.WARNING, `Skipping ${extraFiles.length} additional file(s), those are only written when saving as .gltf`);
+      }
+
       // Let's just write a single-file .glb
-      await DuMeshTransformer.getDocumentIo().write(
-        path.join(dir, `${basename}.glb`),
-        this.gltfDocument,
+      const finalFile = path.join(dir, `${basename}.glb`);
+      await DuMeshTransformer.getDocumentIo().registerDependencies(this.ioDependencies).write(
+        finalFile,
+        document,
       );
+
+      return finalFile;
     }
   }
 
+  /**
+   * Sets dependencies needed when writing the file, such as the encoders used for compression
+   */
+  public setIoDependencies(dependencies: Record<string, unknown>): DuMeshTransformer {
+    this.ioDependencies = { ...this.ioDependencies, ...dependencies };
+    return this;
+  }
+
+  /**
+   * Adds a file to be written alongside the .gltf file, with a path relative to it
+   */
+  public addExtraFile(file: string, data: Uint8Array): DuMeshTransformer {
+    this.extraFiles[file] = data;
+    return this;
+  }
+
+  /**
+   * Gets the list of additional files to be written alongside the .gltf file
+   */
+  public getExtraFiles(): Record<string, Uint8Array> {
+    return { ...this.extraFiles };
+  }
+
   /**
    * Accesses cached data, optionally providing a function to update it when nothing is found
    */
   public async remember<T>(key: string, fn?: () => T) {
-    if (this.cachedData[key] === undefined && fn) {
-      this.cachedData[key] = await fn();
-    }
-
-    return this.cachedData[key];
+    return this.cachedData.remember(key, fn);
   }
 
   /**
@@ -269,22 +455,14 @@ export default class DuMeshTransformer {
    * This variant allows for remembering multiple things under the same "category"
    */
   public async rememberMany<T>(category: string, key: string, fn?: () => T) {
-    if (this.cachedData[category] === undefined) {
-      this.cachedData[category] = {};
-    }
-
-    if (this.cachedData[category][key] === undefined && fn) {
-      this.cachedData[category][key] = await fn();
-    }
-
-    return this.cachedData[category][key];
+    return this.cachedData.rememberMany(category, key, fn);
   }
 
   /**
    * Overwrites cached data
    */
   public setRemember<T>(key: string, data: T) {
-    this.cachedData[key] = data;
+    this.cachedData.setRemember(key, data);
   }
 
   /**
@@ -292,11 +470,56 @@ export default class DuMeshTransformer {
    * This variant allows for caching multiple things under the same "category"
    */
   public setRememberMany<T>(category: string, key: string, data: T) {
-    if (this.cachedData[category] === undefined) {
-      this.cachedData[category] = {};
-    }
+    this.cachedData.setRememberMany(category, key, data);
+  }
+
+  /**
+   * Gets the cache that can be shared between transformers, it must never hold anything tied to a single glTF document
+   */
+  public getSharedCache(): DataCache {
+    return this.sharedCachedData;
+  }
+
+  /**
+   * Sets a cache to be shared with other transformers, so things such as decoded textures are only loaded once
+   */
+  public setSharedCache(cache: DataCache): DuMeshTransformer {
+    this.sharedCachedData = cache;
+    return this;
+  }
 
-    this.cachedData[category][key] = data;
+  /**
+   * Gets the persistent texture cache, if enabled
+   */
+  public getTextureCache(): TextureCache | null {
+    return this.textureCache;
+  }
+
+  /**
+   * Enables the persistent texture cache, so decoded textures are re-used between runs
+   * @param cache A cache instance, or a directory to store the cache into, or null to disable it
+   */
+  public setTextureCache(cache: TextureCache | string | null = new TextureCache()): DuMeshTransformer {
+    this.textureCache = (typeof cache === 'string')
+      ? new TextureCache(cache)
+      : cache;
+    return this;
+  }
+
+  /**
+   * Gets the element library used to name separated elements, if set
+   */
+  public getElementLibrary(): ElementLibrary | null {
+    return this.elementLibrary;
+  }
+
+  /**
+   * Sets the element library, so separated elements matching a known fingerprint are named and tagged automatically
+   * Use loadElementLibrary() to load the user library along with any other library files
+   */
+  public setElementLibrary(library: ElementLibrary | null): DuMeshTransformer {
+    this.elementLibrary = library;
+    return this;
   }
 
   /**
@@ -337,15 +560,35 @@ export default class DuMeshTransformer {
   /**
    * Applies textures to the model, requires the game directory to be present
    */
-  public withTextures() {
-    return this.queue(TexturesTransform);
+  public withTextures({ flipNormalMapGreen = false, maxTextureSize = undefined, colorTextureFormat = 'png', jpegQuality = 85, excludeTextureTypes = [], channelPacking = 'gltf' }: TexturesTransformOptions = {}) {
+    // Validates our options early, so we don't fail mid-processing
+    if (maxTextureSize !== undefined && !(maxTextureSize >= 1)) {
+      throw new Error(`Invalid maximum texture size: ${maxTextureSize}`);
+    }
+    if (!['png', 'jpeg'].includes(colorTextureFormat)) {
+      throw new Error(`Invalid texture format "${colorTextureFormat}", must be either "png" or "jpeg"`);
+    }
+    if (!(jpegQuality >= 1 && jpegQuality <= 100)) {
+      throw new Error(`Invalid JPEG quality ${jpegQuality}, must be between 1 and 100`);
+    }
+    for (const textureType of excludeTextureTypes) {
+      if (!Object.values(MaterialTextureTypes).includes(textureType)) {
+        throw new Error(`Invalid texture type "${textureType}", must be one of: ${Object.values(MaterialTextureTypes).join(', ')}`);
+      }
+    }
+
+    if (!Object.keys(CHANNEL_PACKINGS).includes(channelPacking)) {
+      throw new Error(`Invalid channel packing "${channelPacking}", must be one of: ${Object.keys(CHANNEL_PACKINGS).join(', ')}`);
+    }
+
+    return this.queue(TexturesTransform, { flipNormalMapGreen, maxTextureSize, colorTextureFormat, jpegQuality: Math.round(jpegQuality), excludeTextureTypes, channelPacking });
   }
 
   /**
    * Generates any missing UV maps for the model, via triplanar mapping
    */
-  public withUvMaps({ swapYZ = undefined, textureSizeInMeters = 2.000, voxelOffsetSize = 0.125 }: { swapYZ?: boolean, textureSizeInMeters?: number, voxelOffsetSize?: number } = {}) {
-    // Sorts default swapping
+  public withUvMaps({ swapYZ = 'auto', textureSizeInMeters = 2.000, voxelOffsetSize = 0.125 }: { swapYZ?: boolean | 'auto', textureSizeInMeters?: number, voxelOffsetSize?: number } = {}) {
+    // Sorts default swapping, only external models are Z-up
     if (typeof swapYZ !== 'boolean') {
       swapYZ = (this.getMeshType() === MeshType.EXTERNAL)
         ? true
@@ -355,6 +598,90 @@ export default class DuMeshTransformer {
     return this.queue(CreateUvMapsTransform, { swapYZ, textureSizeInMeters, voxelOffsetSize });
   }
 
+  /**
+   * Merges flat, axis-aligned faces on the voxel grid into larger ones, greatly reducing the triangle count on hull plates
+   * Only faces with the same material and continuous UVs are merged, so this should be done after generating UV maps
+   */
+  public withMergedFaces({ gridSize = 0.25 }: CoplanarMergeOptions = {}) {
+    if (!(gridSize > 0)) {
+      throw new Error(`Invalid grid size: ${gridSize}`);
+    }
+
+    return this.queue(CoplanarMergeTransform, { gridSize });
+  }
+
+  /**
+   * Generates a second, non-overlapping UV map (TEXCOORD_1) for baking lightmaps
+   * This should be done after any other transforms that change the geometry, such as separating elements
+   */
+  public withLightmapUvs({ resolution = 1024, padding = 4, texelsPerMeter = undefined }: UnwrapOptions = {}) {
+    if (!(resolution >= 1)) {
+      throw new Error(`Invalid lightmap resolution: ${resolution}`);
+    }
+    if (!(padding >= 0)) {
+      throw new Error(`Invalid lightmap padding: ${padding}`);
+    }
+    if (texelsPerMeter !== undefined && !(texelsPerMeter > 0)) {
+      throw new Error(`Invalid lightmap texel density: ${texelsPerMeter}`);
+    }
+
+    return this.queue(LightmapUvsTransform, { resolution, padding, texelsPerMeter });
+  }
+
+  /**
+   * Bakes all materials into a single set of atlas textures, replacing them with a single material so the model takes one draw call
+   * This requires textures and UV maps to be applied first, and should be done after any other transforms that change the geometry
+   */
+  public withBakedAtlas({ resolution = 2048, padding = 4, samples = 2 }: BakedAtlasOptions = {}) {
+    if (!(resolution >= 1)) {
+      throw new Error(`Invalid atlas resolution: ${resolution}`);
+    }
+    if (!(padding >= 0)) {
+      throw new Error(`Invalid atlas padding: ${padding}`);
+    }
+    if (!(samples >= 1)) {
+      throw new Error(`Invalid atlas samples: ${samples}`);
+    }
+
+    return this.queue(BakedAtlasTransform, { resolution: Math.round(resolution), padding: Math.round(padding), samples: Math.round(samples) });
+  }
+
+  /**
+   * Generates simplified levels of detail for every mesh, requires the "meshoptimizer" package
+   * This should be done after any other transforms that change the geometry, such as separating elements or baking an atlas
+   */
+  public withLods({ ratios = [1, 0.5, 0.2], mode = 'nodes', error = 0.01 }: LodOptions = {}) {
+    if (ratios.length == 0 || ratios.some(ratio => !(ratio > 0 && ratio <= 1))) {
+      throw new Error(`Invalid LOD ratios ${ratios.join(', ')}, must be above 0 and up to 1`);
+    }
+    if (ratios.some((ratio, idx) => idx > 0 && ratio >= ratios[idx - 1])) {
+      throw new Error(`Invalid LOD ratios ${ratios.join(', ')}, must go from the most to the least detailed`);
+    }
+    if (!['nodes', 'msft_lod'].includes(mode)) {
+      throw new Error(`Invalid LOD mode "${mode}", must be either "nodes" or "msft_lod"`);
+    }
+    if (!(error > 0 && error <= 1)) {
+      throw new Error(`Invalid LOD error ${error}, must be above 0 and up to 1`);
+    }
+
+    return this.queue(LodTransform, { ratios, mode, error });
+  }
+
+  /**
+   * Welds vertices and removes duplicate or unused data, optionally compressing the geometry with meshopt or Draco
+   * This should be the last transform, as compressed geometry can't be changed anymore
+   */
+  public withOptimization({ compression = 'none', weldTolerance = 0.0001 }: OptimizationOptions = {}) {
+    if (!['none', 'meshopt', 'draco'].includes(compression)) {
+      throw new Error(`Invalid compression "${compression}", must be one of: none, meshopt, draco`);
+    }
+    if (!(weldTolerance > 0 && weldTolerance <= 0.1)) {
+      throw new Error(`Invalid weld tolerance ${weldTolerance}, must be above 0 and up to 0.1`);
+    }
+
+    return this.queue(OptimizationTransform, { compression, weldTolerance });
+  }
+
   /**
    * Applies HDR emissive strenght to the emissive materials
    */
@@ -364,9 +691,29 @@ export default class DuMeshTransformer {
 
   /**
    * Attempts to separate elements from honeycomb, to assist when texturing
+   * Each isolated element gets its own node, with its pivot at the center or bottom of its bounding box
+   */
+  public withSeparatedElements({ pivot = 'center' }: ElementSeparationOptions = {}) {
+    if (!['center', 'bottom'].includes(pivot)) {
+      throw new Error(`Invalid element pivot "${pivot}", must be either "center" or "bottom"`);
+    }
+
+    return this.queue(ElementSeparationTransform, { pivot });
+  }
+
+  /**
+   * Replaces separated elements with other models, such as textured versions of them, matched by fingerprint or bounding box signature
+   * Each model is placed on the element's position and rotated (in 90 degree steps) to fit its shape, this requires separating elements first
+   * @param replacements Maps fingerprints (or bounding box signatures, such as "250x500x1000") into .gltf/.glb files
    */
-  public withSeparatedElements() {
-    return this.queue(ElementSeparationTransform, ...arguments);
+  public withElementReplacements(replacements: ElementReplacements) {
+    for (const [signature, file] of Object.entries(replacements)) {
+      if (!fileExists(file)) {
+        throw new Error(`Element model for "${signature}" not found: ${file}`);
+      }
+    }
+
+    return this.queue(ElementReplacementTransform, replacements);
   }
 
   /**
@@ -376,6 +723,82 @@ export default class DuMeshTransformer {
     return this.queue(TranslateTransform, ...arguments);
   }
 
+  /**
+   * Moves the model so its origin is at the construct's core (as exported), the center of its bounding box, or the center of its bottom face
+   */
+  public withOrigin(origin: OriginMode) {
+    if (!['core', 'center', 'bottom'].includes(origin)) {
+      throw new Error(`Invalid origin "${origin}", must be one of: core, center, bottom`);
+    }
+
+    return this.queue(OriginTransform, origin);
+  }
+
+  /**
+   * Scales the meshes and their positions by a factor, such as 100 for centimeters
+   */
+  public withScale(scale: number) {
+    if (!(scale > 0)) {
+      throw new Error(`Invalid scale: ${scale}`);
+    }
+
+    return this.queue(ScaleTransform, scale);
+  }
+
+  /**
+   * Applies the full processing pipeline with the settings for a target engine or tool
+   * @param preset Either the name of a preset, or its settings
+   * @param presets The presets to pick from when passing a name, use loadExportPresets() to include user presets
+   */
+  public withPreset(preset: string | ExportPreset, presets: ExportPresets = BUILTIN_EXPORT_PRESETS) {
+    if (typeof preset === 'string') {
+      if (!Object.keys(presets).includes(preset)) {
+        throw new Error(`Unknown preset "${preset}", must be one of: ${Object.keys(presets).join(', ')}`);
+      }
+      preset = presets[preset];
+    }
+
+    this.withBaseColors();
+    if (preset.textures !== false) {
+      this.withTextures(preset.textures);
+    }
+    if (preset.uvs !== false) {
+      this.withUvMaps({ swapYZ: preset.swapYZ, textureSizeInMeters: preset.textureSizeInMeters });
+    }
+    this.withHdrEmissive({ strength: preset.emissiveStrength });
+    if (preset.separateElements !== false) {
+      this.withSeparatedElements(typeof preset.separateElements === 'object' ? preset.separateElements : {});
+      if (preset.elementReplacements && Object.keys(preset.elementReplacements).length > 0) {
+        this.withElementReplacements(preset.elementReplacements);
+      }
+    }
+    if (preset.mergeFaces) {
+      this.withMergedFaces(preset.mergeFaces === true ? {} : preset.mergeFaces);
+    }
+    if (preset.bakedAtlas) {
+      this.withBakedAtlas(preset.bakedAtlas === true ? {} : preset.bakedAtlas);
+    }
+    if (preset.lightmapUvs) {
+      this.withLightmapUvs(preset.lightmapUvs === true ? {} : preset.lightmapUvs);
+    }
+    if (preset.lods) {
+      this.withLods(preset.lods === true ? {} : preset.lods);
+    }
+
+    // Moving and scaling are done last, as everything else works with the game's origin and units
+    if (preset.origin !== undefined && preset.origin !== 'core') {
+      this.withOrigin(preset.origin);
+    }
+    if (preset.unitScale !== undefined && preset.unitScale !== 1) {
+      this.withScale(preset.unitScale);
+    }
+    if (preset.optimization) {
+      this.withOptimization(preset.optimization === true ? {} : preset.optimization);
+    }
+
+    return this;
+  }
+
   ///////////////////////////////////////////////////////////////////
   // Constructors
   ///////////////////////////////////////////////////////////////////
@@ -383,14 +806,18 @@ export default class DuMeshTransformer {
   private constructor(
     private gltfDocument: Document,
     private materialDefinitions: MaterialDefinitions,
+    isExportedMesh: boolean = true,
   ) {
-    // Sets game install directory on Windows
-    if (os.platform() == 'win32') {
-      const defaultGameInstall = path.join(env.ProgramData || 'C:\\ProgramData', 'Dual Universe');
+    // Sets game install directory, when found
+    const defaultGameInstall = DuMeshTransformer.locateGameInstallationDirectory();
+    if (defaultGameInstall) {
+      this.setGameInstallationDirectory(defaultGameInstall.directory, defaultGameInstall.source);
+    }
 
-      if (fileExists(defaultGameInstall) && fileExists(path.join(defaultGameInstall, 'Game', 'data'))) {
-        this.setGameInstallationDirectory(defaultGameInstall);
-      }
+    // Composed scenes are built from constructs we already processed, so there's nothing to detect
+    if (!isExportedMesh) {
+      this.coreSize = 0;
+      return;
     }
     
     // Removes default light/camera that are exported along with model
@@ -488,6 +915,71 @@ export default class DuMeshTransformer {
     }
   }
 
+  /**
+   * Loads the material definitions bundled with the package, with the user and project overrides applied on top of them
+   * Useful when processing multiple files, so they're only loaded once
+   * @param overrideFiles Extra override files, applied last and in order
+   */
+  public static async loadMaterialDefinitions(overrideFiles: string[] = []): Promise<MaterialDefinitions> {
+    let materialDefinitions: MaterialDefinitions = await fs.readFile(path.join(Package.getDataDirectory(), 'materials.json')).then((data) => JSON.parse(data.toString()));
+
+    for (const file of [...getDefaultMaterialOverrideFiles(), ...overrideFiles]) {
+      materialDefinitions = mergeMaterialDefinitions(materialDefinitions, await loadMaterialOverridesFile(file));
+    }
+
+    return materialDefinitions;
+  }
+
+  /**
+   * Assembles multiple constructs into a single scene, such as a mothership and its docked fighters
+   * Each construct is processed on its own, then placed under a node with its name, position and rotation
+   * Materials and textures for the same game item are shared between all constructs
+   * @param layout The constructs to load, along with where they go
+   * @param options Use prepare() to queue the transforms for each construct, positions are multiplied by unitScale to match any scaling done there
+   */
+  public static async compose(layout: ComposeLayout, { prepare, materialDefinitions, unitScale = 1 }: ComposeOptions = {}): Promise<DuMeshTransformer> {
+    validateComposeLayout(layout);
+    if (!(unitScale > 0)) {
+      throw new Error(`Invalid scale: ${unitScale}`);
+    }
+
+    // Material definitions are only loaded once
+    materialDefinitions = materialDefinitions || await DuMeshTransformer.loadMaterialDefinitions();
+
+    const document = new Document();
+    document.createBuffer();
+    const scene = document.createScene(layout.name || 'Scene');
+    const composed = new DuMeshTransformer(document, materialDefinitions, false)
+      .setName(layout.name || 'Scene');
+
+    for (const construct of layout.constructs) {
+      // Processes each construct the same way as when saving it, sharing any decoded textures
+      const transformer = (await DuMeshTransformer.fromFile(construct.file, materialDefinitions))
+        .setSharedCache(composed.getSharedCache());
+      if (prepare) {
+        await prepare(transformer, construct);
+      }
+      await transformer.processQueue();
+
+      // Places the construct on the scene
+      const constructNode = document.createNode(construct.name || transformer.getName())
+        .setTranslation((construct.position || [0, 0, 0]).map(value => value * unitScale) as vec3)
+        .setRotation(getConstructRotation(construct.rotation));
+      scene.addChild(constructNode);
+      addConstructToDocument(document, transformer.getDocument(), constructNode);
+
+      // Anything needed for writing the construct is also needed for the scene
+      composed.setIoDependencies(transformer.ioDependencies);
+      for (const [file, data] of Object.entries(transformer.getExtraFiles())) {
+        composed.addExtraFile(file, data);
+      }
+      composed.coreSize = Math.max(composed.coreSize, transformer.getCoreSizeInMeters());
+    }
+
+    await dedupeConstructMaterials(document);
+    return composed;
+  }
+
   /**
    * Loads a glTF exported mesh from a GLTF Transform Document
    * @returns 
@@ -495,10 +987,17 @@ export default class DuMeshTransformer {
   public static async fromDocument(document: Document, materialDefinitions?: MaterialDefinitions): Promise<DuMeshTransformer> {
     return new DuMeshTransformer(
       document,
-      materialDefinitions || await fs.readFile(path.join(Package.getDataDirectory(), 'materials.json')).then((data) => JSON.parse(data.toString())),
+      materialDefinitions || await DuMeshTransformer.loadMaterialDefinitions(),
     );
   }
 
+  /**
+   * Reads a .gltf/.glb file as-is, without any of the processing done when loading exported meshes
+   */
+  public static async readDocumentFromFile(file: string): Promise<Document> {
+    return await DuMeshTransformer.getDocumentIo().read(file);
+  }
+
   /**
    * Loads a glTF exported mesh from a .gltf/.glb file
    * @returns 
@@ -506,7 +1005,7 @@ export default class DuMeshTransformer {
   public static async fromFile(file: string, materialDefinitions?: MaterialDefinitions): Promise<DuMeshTransformer> {
     return (
       await DuMeshTransformer.fromDocument(
-        await DuMeshTransformer.getDocumentIo().read(file),
+        await DuMeshTransformer.readDocumentFromFile(file),
         materialDefinitions,
       )
     ).setName(path.basename(file, path.extname(file)));
@@ -0,0 +1,170 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { existsSync as fileExists, promises as fs } from 'fs';
+import { Mesh } from '@gltf-transform/core';
+
+import Package from './Package';
+import { getPrimitiveTriangles } from './MeshGeometry';
+
+export type ElementLibraryEntry = {
+  // The name given to matching elements, such as "Container L"
+  name: string;
+  // Any extra tags written into the node extras
+  tags?: string[];
+};
+
+export type ElementLibrary = {
+  // Entries keyed by their fingerprint
+  elements: Record<string, ElementLibraryEntry>;
+};
+
+/**
+ * Gets the user-level element library file (such as ~/.config/du-gltf/elements.json)
+ */
+export function getUserElementLibraryFile(): string {
+  return path.join(Package.getUserConfigDirectory(), 'elements.json');
+}
+
+// Helper function to get the size of an element's bounding box in millimeters, sorted so axes can be swapped
+function getSortedExtents(min: number[], max: number[]): number[] {
+  return max.map((value, axis) => Math.max(0, Math.round((value - min[axis]) * 1000)))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Gets a fingerprint for the geometry of an element, which stays the same when moved or rotated in 90 degree steps
+ * It's built from the triangle count, the bounding box size (sorted, so axes can be swapped) and a hash of all edge lengths
+ */
+export function getElementFingerprint(mesh: Mesh): string {
+  const triangles: number[][][] = [];
+  for (const primitive of mesh.listPrimitives()) {
+    const primitiveVertexPosition = primitive.getAttribute('POSITION');
+    if (!primitiveVertexPosition || !primitive.getIndices()) {
+      continue;
+    }
+
+    for (const vertexIds of getPrimitiveTriangles(primitive)) {
+      triangles.push(vertexIds.map(id => primitiveVertexPosition.getElement(id, [])));
+    }
+  }
+
+  return getTrianglesFingerprint(triangles);
+}
+
+/**
+ * Gets the same fingerprint as getElementFingerprint(), from the vertex positions of each triangle
+ * Useful for geometry which isn't on its own mesh yet, such as element islands before separating them
+ */
+export function getTrianglesFingerprint(triangles: number[][][]): string {
+  const edgeLengths: number[] = [];
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+
+  for (const positions of triangles) {
+    for (let i = 0; i < 3; i++) {
+      const [a, b] = [positions[i], positions[(i + 1) % 3]];
+      edgeLengths.push(Math.round(Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]) * 1000));
+
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], a[axis]);
+        max[axis] = Math.max(max[axis], a[axis]);
+      }
+    }
+  }
+
+  // Sizes and lengths are rounded to millimeters, so small precision errors don't change the fingerprint
+  const edgeHash = createHash('sha1')
+    .update(edgeLengths.sort((a, b) => a - b).join(','))
+    .digest('hex')
+    .slice(0, 12);
+
+  return `${triangles.length}-${getSortedExtents(min, max).join('x')}-${edgeHash}`;
+}
+
+/**
+ * Gets the bounding box signature of an element (such as "250x500x1000"), a looser match than its fingerprint
+ * It's the size of the bounding box in millimeters, sorted so it also stays the same when rotated in 90 degree steps
+ */
+export function getElementBoundsSignature(min: number[], max: number[]): string {
+  return getSortedExtents(min, max).join('x');
+}
+
+/**
+ * Loads an element library file
+ */
+export async function loadElementLibraryFile(file: string): Promise<ElementLibrary> {
+  let library: ElementLibrary;
+  try {
+    library = JSON.parse((await fs.readFile(file)).toString());
+  } catch (err) {
+    throw new Error(`Could not load element library from "${file}": ${(err as Error).message}`);
+  }
+
+  if (!library || typeof library.elements !== 'object') {
+    throw new Error(`Invalid element library file, missing "elements" object: ${file}`);
+  }
+
+  for (const [fingerprint, entry] of Object.entries(library.elements)) {
+    if (!entry || typeof entry.name !== 'string' || !entry.name) {
+      throw new Error(`Invalid element "${fingerprint}" in "${file}", it must have a name`);
+    }
+    if (entry.tags !== undefined && !(Array.isArray(entry.tags) && entry.tags.every(tag => typeof tag === 'string'))) {
+      throw new Error(`Invalid tags for element "${entry.name}" in "${file}", it must be an array of strings`);
+    }
+  }
+
+  return library;
+}
+
+/**
+ * Loads the user element library (when present) along with any extra library files
+ * @param libraryFiles Extra library files, later files replace elements with the same fingerprint
+ */
+export async function loadElementLibrary(libraryFiles: string[] = []): Promise<ElementLibrary> {
+  let library: ElementLibrary = { elements: {} };
+
+  const files = [getUserElementLibraryFile()]
+    .filter(file => fileExists(file))
+    .concat(libraryFiles);
+
+  for (const file of files) {
+    library = { elements: { ...library.elements, ...(await loadElementLibraryFile(file)).elements } };
+  }
+
+  return library;
+}
+
+/**
+ * Loads a file mapping element fingerprints (or bounding box signatures) into replacement models
+ * Model paths starting with "./" or "../" are resolved relative to the file itself
+ */
+export async function loadElementReplacementsFile(file: string): Promise<Record<string, string>> {
+  let replacements: Record<string, string>;
+  try {
+    replacements = JSON.parse((await fs.readFile(file)).toString());
+  } catch (err) {
+    throw new Error(`Could not load element replacements from "${file}": ${(err as Error).message}`);
+  }
+
+  if (!replacements || typeof replacements !== 'object' || Array.isArray(replacements)) {
+    throw new Error(`Invalid element replacements file, it must be an object of fingerprints and their models: ${file}`);
+  }
+
+  for (const [signature, model] of Object.entries(replacements)) {
+    if (typeof model !== 'string') {
+      throw new Error(`Invalid model for element "${signature}" in "${file}", it must be a file path`);
+    }
+    if (/^\.\.?[\\/]/.test(model)) {
+      replacements[signature] = path.resolve(path.dirname(file), model);
+    }
+  }
+
+  return replacements;
+}
+
+/**
+ * Saves an element library file, creating its directory when needed
+ */
+export async function saveElementLibraryFile(file: string, library: ElementLibrary) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(library, null, 2));
+}
\ No newline at end of file
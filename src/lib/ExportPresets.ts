@@ -0,0 +1,145 @@
+import path from 'path';
+import { existsSync as fileExists, promises as fs } from 'fs';
+
+import Package from './Package';
+import { TexturesTransformOptions } from './commands/TexturesTransform';
+import { UnwrapOptions } from './MeshUnwrapper';
+import { BakedAtlasOptions } from './commands/BakedAtlasTransform';
+import { OptimizationOptions } from './commands/OptimizationTransform';
+import { ElementSeparationOptions } from './commands/ElementSeparationTransform';
+import { ElementReplacements } from './commands/ElementReplacementTransform';
+import { CoplanarMergeOptions } from './commands/CoplanarMergeTransform';
+import { LodOptions } from './commands/LodTransform';
+import { OriginMode } from './commands/OriginTransform';
+
+export type ExportPreset = {
+  // Shown when listing presets
+  description?: string;
+  // Texture settings, or false to skip applying textures altogether
+  textures?: TexturesTransformOptions | false;
+  // Generates UV maps, enabled by default
+  uvs?: boolean;
+  // Rotates the model from Z-up into Y-up, "auto" only does it for external models, as game exports are already Y-up
+  swapYZ?: boolean | 'auto';
+  // Where the model's origin goes, either the construct's core (default), the center of its bounding box, or the center of its bottom face
+  origin?: OriginMode;
+  // Size of a texture tile in meters when generating UVs
+  textureSizeInMeters?: number;
+  // HDR strength applied to emissive materials
+  emissiveStrength?: number;
+  // Separates elements from honeycomb, enabled by default
+  separateElements?: ElementSeparationOptions | boolean;
+  // Replaces separated elements with other models, mapping fingerprints or bounding box signatures into .gltf/.glb files
+  elementReplacements?: ElementReplacements;
+  // Merges flat faces on the voxel grid into larger ones, disabled by default
+  mergeFaces?: CoplanarMergeOptions | boolean;
+  // Bakes all materials into a single atlas, disabled by default
+  bakedAtlas?: BakedAtlasOptions | boolean;
+  // Generates a second UV map for lightmaps, disabled by default
+  lightmapUvs?: UnwrapOptions | boolean;
+  // Generates simplified levels of detail for every mesh, disabled by default
+  lods?: LodOptions | boolean;
+  // Multiplies all positions, such as 100 when the target works in centimeters
+  unitScale?: number;
+  // Welds vertices, removes duplicate data and optionally compresses the geometry, disabled by default
+  optimization?: OptimizationOptions | boolean;
+};
+
+export type ExportPresets = Record<string, ExportPreset>;
+
+/**
+ * The presets bundled with the package, tuned for the tools we usually import into
+ * All of their glTF importers expect Y-up models in meters and convert into their own axes and units, so none of them need rotating or scaling
+ * The origin stays at the core, so models line up with each other the same way they do in-game
+ */
+export const BUILTIN_EXPORT_PRESETS: ExportPresets = {
+  blender: {
+    description: 'Blender, with separate metallic, roughness and AO maps',
+    textures: { channelPacking: 'separate' },
+    emissiveStrength: 5.000,
+    // Converts into Z-up when importing
+    swapYZ: 'auto',
+    unitScale: 1,
+    origin: 'core',
+  },
+  unity: {
+    description: 'Unity (Standard and URP), with a metallic/smoothness map',
+    textures: { channelPacking: 'unity' },
+    emissiveStrength: 2.000,
+    // Already Y-up, the importer only flips the handedness
+    swapYZ: 'auto',
+    unitScale: 1,
+    origin: 'core',
+  },
+  unreal: {
+    description: 'Unreal Engine, which uses the glTF occlusion/roughness/metallic layout as-is',
+    textures: { channelPacking: 'gltf' },
+    emissiveStrength: 10.000,
+    // Converts into Z-up and centimeters when importing, scaling it here would make it 100 times larger
+    swapYZ: 'auto',
+    unitScale: 1,
+    origin: 'core',
+  },
+  threejs: {
+    description: 'three.js and other web viewers, with smaller JPEG textures',
+    textures: { colorTextureFormat: 'jpeg', jpegQuality: 85, maxTextureSize: 1024 },
+    emissiveStrength: 2.000,
+    // Uses the glTF axes and units as-is
+    swapYZ: 'auto',
+    unitScale: 1,
+    origin: 'core',
+  },
+};
+
+// Only those keys are accepted in preset files, so typos don't go unnoticed
+const PRESET_KEYS = ['description', 'textures', 'uvs', 'swapYZ', 'origin', 'textureSizeInMeters', 'emissiveStrength', 'separateElements', 'elementReplacements', 'mergeFaces', 'bakedAtlas', 'lightmapUvs', 'lods', 'unitScale', 'optimization'];
+
+/**
+ * Gets the user-level presets file (such as ~/.config/du-gltf/presets.json)
+ */
+export function getUserPresetsFile(): string {
+  return path.join(Package.getUserConfigDirectory(), 'presets.json');
+}
+
+/**
+ * Loads a presets file, which maps preset names into their settings
+ */
+export async function loadExportPresetsFile(file: string): Promise<ExportPresets> {
+  let presets: ExportPresets;
+  try {
+    presets = JSON.parse((await fs.readFile(file)).toString());
+  } catch (err) {
+    throw new Error(`Could not load presets from "${file}": ${(err as Error).message}`);
+  }
+
+  if (!presets || typeof presets !== 'object' || Array.isArray(presets)) {
+    throw new Error(`Invalid presets file, it must be an object of preset names and their settings: ${file}`);
+  }
+
+  for (const [name, preset] of Object.entries(presets)) {
+    const unknownKey = Object.keys(preset || {}).find(key => !PRESET_KEYS.includes(key));
+    if (!preset || typeof preset !== 'object' || unknownKey) {
+      throw new Error(`Invalid preset "${name}" in "${file}"${unknownKey ? `, unknown setting "${unknownKey}"` : ''}`);
+    }
+  }
+
+  return presets;
+}
+
+/**
+ * Loads the bundled presets, with the user presets file and any extra files added on top of them
+ * @param presetFiles Extra preset files, later files replace presets with the same name
+ */
+export async function loadExportPresets(presetFiles: string[] = []): Promise<ExportPresets> {
+  let presets: ExportPresets = { ...BUILTIN_EXPORT_PRESETS };
+
+  const files = [getUserPresetsFile()]
+    .filter(file => fileExists(file))
+    .concat(presetFiles);
+
+  for (const file of files) {
+    presets = { ...presets, ...await loadExportPresetsFile(file) };
+  }
+
+  return presets;
+}
\ No newline at end of file
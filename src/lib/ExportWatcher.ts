@@ -0,0 +1,171 @@
+import path from 'path';
+import { existsSync as fileExists, promises as fs, watch, FSWatcher } from 'fs';
+import EventEmitter from 'node:events';
+
+import BatchProcessor, { BatchFileResult } from './BatchProcessor';
+
+export enum WatchEventType {
+  FILE_QUEUED = 'file_queued',
+  FILE_PROCESSING = 'file_processing',
+  FILE_PROCESSED = 'file_processed',
+  ERROR = 'error',
+};
+
+export type ExportWatcherOptions = {
+  // How long a file must stay unchanged before it's considered fully written
+  debounceMs?: number;
+};
+
+// Keeps track of files that are still being written
+type PendingFile = { timer: NodeJS.Timeout, size: number, mtimeMs: number };
+
+/**
+ * Watches a directory for new Mesh Exporter files, processing them once they're fully written
+ * Processing happens through a single BatchProcessor, so material definitions and textures are kept loaded between runs
+ */
+export default class ExportWatcher {
+  // This is the actual file system watcher
+  private watcher: FSWatcher | null = null;
+
+  // This is an event emitter for status updates
+  private eventEmitter = new EventEmitter();
+
+  // Files waiting to be stable before being processed
+  private pendingFiles = new Map<string, PendingFile>();
+
+  // Files ready for processing, in order
+  private queue: string[] = [];
+
+  // Whether we're currently processing a file
+  private isProcessing = false;
+
+  // The file currently being processed, so stopping can wait for it
+  private currentFile: Promise<BatchFileResult> | null = null;
+
+  constructor(
+    private directory: string,
+    private processor: BatchProcessor,
+    private options: ExportWatcherOptions = {},
+  ) {
+    if (!fileExists(directory)) {
+      throw new Error(`Directory not found: ${directory}`);
+    }
+  }
+
+  /**
+   * Allows for listening for events from the watcher
+   */
+  public events(): EventEmitter {
+    return this.eventEmitter;
+  }
+
+  /**
+   * Starts watching the directory
+   */
+  public start(): ExportWatcher {
+    if (!this.watcher) {
+      this.watcher = watch(this.directory, (eventType, filename) => {
+        if (filename) {
+          this.schedule(path.join(this.directory, filename.toString()));
+        }
+      });
+      this.watcher.on('error', (err) => this.events().emit(WatchEventType.ERROR, err));
+    }
+
+    return this;
+  }
+
+  /**
+   * Stops watching the directory, any file currently being processed will still finish
+   * @returns Resolves once the file currently being processed (if any) is done
+   */
+  public async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = null;
+
+    this.pendingFiles.forEach(pending => clearTimeout(pending.timer));
+    this.pendingFiles.clear();
+    this.queue = [];
+
+    await this.currentFile;
+  }
+
+  /**
+   * Checks whether a file is currently being processed
+   */
+  public isBusy(): boolean {
+    return !!this.currentFile;
+  }
+
+  /**
+   * Waits until the file stops changing, then queues it for processing
+   */
+  private async schedule(file: string) {
+    // Skips anything that's not an export, including our own output
+    if (!BatchProcessor.isProcessableFile(file)) {
+      return;
+    }
+
+    // Gets the current state of the file, it might have been deleted already
+    const stats = await fs.stat(file).catch(() => null);
+    const previous = this.pendingFiles.get(file);
+    if (previous) {
+      clearTimeout(previous.timer);
+    }
+    if (!stats || !stats.isFile()) {
+      this.pendingFiles.delete(file);
+      return;
+    }
+
+    // Checks again after a while, if nothing changed the file is ready
+    const timer = setTimeout(async () => {
+      const current = await fs.stat(file).catch(() => null);
+      const pending = this.pendingFiles.get(file);
+      if (!current || !pending || pending.timer !== timer) {
+        return;
+      }
+
+      if (current.size > 0 && current.size === pending.size && current.mtimeMs === pending.mtimeMs) {
+        this.pendingFiles.delete(file);
+        this.enqueue(file);
+      } else {
+        this.schedule(file);
+      }
+    }, this.options.debounceMs ?? 1000);
+
+    this.pendingFiles.set(file, { timer, size: stats.size, mtimeMs: stats.mtimeMs });
+  }
+
+  /**
+   * Adds a file to the processing queue
+   */
+  private enqueue(file: string) {
+    if (!this.queue.includes(file)) {
+      this.queue.push(file);
+      this.events().emit(WatchEventType.FILE_QUEUED, file);
+    }
+
+    this.processQueue();
+  }
+
+  /**
+   * Processes queued files, one at a time
+   */
+  private async processQueue() {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    while (this.queue.length > 0) {
+      const file = this.queue.shift()!;
+      this.events().emit(WatchEventType.FILE_PROCESSING, file);
+
+      this.currentFile = this.processor.processFile(file);
+      const result: BatchFileResult = await this.currentFile;
+      this.currentFile = null;
+      this.events().emit(WatchEventType.FILE_PROCESSED, result);
+    }
+    this.isProcessing = false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+import path from 'path';
+import os from 'os';
+import { env } from 'process';
+import { existsSync as fileExists, readdirSync } from 'fs';
+
+import UserConfig from './UserConfig';
+
+export enum GameDirectorySource {
+  CUSTOM = 'custom',
+  ENVIRONMENT = 'environment',
+  CONFIG = 'config',
+  WINE = 'wine',
+  PROTON = 'proton',
+  DEFAULT = 'default',
+};
+
+export type GameDirectoryLocation = {
+  directory: string;
+  source: GameDirectorySource;
+};
+
+// Sources the user explicitly configured, which we warn about when they don't point to a valid installation
+const EXPLICIT_SOURCES = [GameDirectorySource.ENVIRONMENT, GameDirectorySource.CONFIG];
+
+// Invalid explicit directories we already warned about, so batches don't repeat it for every file
+const warnedDirectories = new Set<string>();
+
+// Where the game installs itself inside a Windows (or Wine) drive
+const INSTALL_PATH_IN_DRIVE = path.join('drive_c', 'ProgramData', 'Dual Universe');
+
+/**
+ * Checks whether a directory is a valid game installation
+ */
+export function isValidGameDirectory(directory: string): boolean {
+  return fileExists(path.join(directory, 'Game', 'data'));
+}
+
+// Lists sub-directories, ignoring any errors
+function listDirectories(directory: string): string[] {
+  try {
+    return readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => path.join(directory, entry.name));
+  } catch (err) {
+    return [];
+  }
+}
+
+// Lists Wine prefixes from common locations
+function getWineCandidates(): string[] {
+  const home = os.homedir();
+  return [
+    env.WINEPREFIX,
+    path.join(home, '.wine'),
+    // Lutris and other launchers default to one prefix per game inside ~/Games
+    ...listDirectories(path.join(home, 'Games')),
+  ]
+    .filter(prefix => !!prefix)
+    .map(prefix => path.join(prefix!, INSTALL_PATH_IN_DRIVE));
+}
+
+// Lists Proton prefixes from all known Steam library locations
+function getProtonCandidates(): string[] {
+  const home = os.homedir();
+  return [
+    path.join(home, '.steam', 'steam'),
+    path.join(home, '.local', 'share', 'Steam'),
+    path.join(home, '.var', 'app', 'com.valvesoftware.Steam', '.local', 'share', 'Steam'),
+  ]
+    .flatMap(steam => listDirectories(path.join(steam, 'steamapps', 'compatdata')))
+    .map(compatData => path.join(compatData, 'pfx', INSTALL_PATH_IN_DRIVE));
+}
+
+/**
+ * Lists all possible game directories, in the order they should be checked
+ */
+export function listGameDirectoryCandidates(): GameDirectoryLocation[] {
+  const candidates: GameDirectoryLocation[] = [];
+  const add = (source: GameDirectorySource, directory: string | undefined) => directory && candidates.push({ directory, source });
+
+  add(GameDirectorySource.ENVIRONMENT, env.DU_GAME_DIR);
+  add(GameDirectorySource.CONFIG, UserConfig.tryGet('gameDirectory'));
+  getWineCandidates().forEach(directory => add(GameDirectorySource.WINE, directory));
+  getProtonCandidates().forEach(directory => add(GameDirectorySource.PROTON, directory));
+  if (os.platform() == 'win32') {
+    add(GameDirectorySource.DEFAULT, path.join(env.ProgramData || 'C:\\ProgramData', 'Dual Universe'));
+  }
+
+  return candidates;
+}
+
+/**
+ * Finds the game directory, checking the DU_GAME_DIR environment variable, the user config, Wine/Proton prefixes and the Windows default, in that order
+ */
+export function locateGameDirectory(): GameDirectoryLocation | null {
+  return listGameDirectoryCandidates()
+    .find(candidate => {
+      if (isValidGameDirectory(candidate.directory)) {
+        return true;
+      }
+
+      // Otherwise a typo in the user's own setting would only surface as "not found", or as a different install being used
+      const key = `${candidate.source}:${candidate.directory}`;
+      if (EXPLICIT_SOURCES.includes(candidate.source) && !warnedDirectories.has(key)) {
+        console.warn('[WARNING]', `Game directory from ${candidate.source} is not a valid installation, skipping it: ${candidate.directory}`);
+        warnedDirectories.add(key);
+      }
+      return false;
+    }) || null;
+}
\ No newline at end of file
@@ -0,0 +1,364 @@
+import { vec3 } from '@gltf-transform/core';
+
+import DuMeshTransformer from './DuMeshTransformer';
+import { formatTable } from './TextTable';
+import { getPrimitiveTriangles } from './MeshGeometry';
+
+// The material categories used by honeycomb, anything else (elements, ores, etc) is ignored
+export const HONEYCOMB_CATEGORIES = ['hcombs_v1', 'hcombs_v2'];
+
+// Each voxel is a 0.25m cube
+const VOXEL_SIZE = 0.25;
+const VOXEL_VOLUME = VOXEL_SIZE * VOXEL_SIZE * VOXEL_SIZE;
+
+// Rays are moved slightly off the voxel centers (by a different amount on each axis), so they don't go exactly through the edges between triangles
+const RAY_OFFSETS = [1e-4 * Math.PI, 1e-4 * Math.E, 1e-4 * Math.SQRT2];
+
+// The other two axes for each axis, as [u, v]
+const OTHER_AXES = [[1, 2], [0, 2], [0, 1]];
+
+export type HoneycombMaterialEstimate = {
+  itemId: string;
+  title: string;
+  category: string;
+  triangles: number;
+  // In cubic meters, counted on the voxel grid, so boundaries between materials are only as precise as a voxel
+  volume: number;
+  liters: number;
+  // Amount of voxels of this material
+  voxels: number;
+};
+
+export type HoneycombEstimate = {
+  materials: HoneycombMaterialEstimate[];
+  // Measured from the surface itself, so it's exact for closed constructs and can differ slightly from the sum of the materials
+  total: { volume: number, liters: number, voxels: number };
+};
+
+// A honeycomb triangle, along with the index of the material it belongs to
+type SurfaceTriangle = {
+  vertices: number[][];
+  material: number;
+};
+
+// Where a ray going along an axis goes through the surface
+type SurfaceCrossing = {
+  position: number;
+  // When the surface faces against the ray, it's going into the construct
+  isEntering: boolean;
+  material: number;
+};
+
+// The voxel grid, aligned with the game's voxels
+type VoxelGrid = {
+  min: vec3;
+  counts: vec3;
+};
+
+// Gets the signed volume of the tetrahedron between a triangle and a reference point
+function getSignedVolume([a, b, c]: number[][], origin: vec3): number {
+  const [ax, ay, az] = [a[0] - origin[0], a[1] - origin[1], a[2] - origin[2]];
+  const [bx, by, bz] = [b[0] - origin[0], b[1] - origin[1], b[2] - origin[2]];
+  const [cx, cy, cz] = [c[0] - origin[0], c[1] - origin[1], c[2] - origin[2]];
+  return (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+}
+
+// Helper function to get the voxel grid covering a list of triangles
+function getVoxelGrid(triangles: SurfaceTriangle[]): VoxelGrid {
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  for (const { vertices } of triangles) {
+    for (const position of vertices) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], position[axis]);
+        max[axis] = Math.max(max[axis], position[axis]);
+      }
+    }
+  }
+
+  const gridMin = min.map(value => Math.floor(value / VOXEL_SIZE) * VOXEL_SIZE) as vec3;
+  return {
+    min: gridMin,
+    counts: max.map((value, axis) => Math.max(1, Math.ceil((value - gridMin[axis]) / VOXEL_SIZE))) as vec3,
+  };
+}
+
+// Casts a ray along an axis through every row of voxels, listing where each one crosses the surface
+// Rows are indexed by their voxel coordinates on the other two axes, as "u + v * counts[axisU]"
+function getSurfaceCrossings(triangles: SurfaceTriangle[], { min, counts }: VoxelGrid, axis: number): Map<number, SurfaceCrossing[]> {
+  const [axisU, axisV] = OTHER_AXES[axis];
+  const rows = new Map<number, SurfaceCrossing[]>();
+  for (const { vertices: [a, b, c], material } of triangles) {
+    const [x0, y0, x1, y1, x2, y2] = [a[axisU], a[axisV], b[axisU], b[axisV], c[axisU], c[axisV]];
+    const determinant = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0);
+    if (Math.abs(determinant) < 1e-12) {
+      continue;
+    }
+
+    // The normal along the ray's axis tells us which side of the surface the ray is coming from
+    const edge1 = [0, 1, 2].map(idx => b[idx] - a[idx]), edge2 = [0, 1, 2].map(idx => c[idx] - a[idx]);
+    const normal = edge1[(axis + 1) % 3] * edge2[(axis + 2) % 3] - edge1[(axis + 2) % 3] * edge2[(axis + 1) % 3];
+
+    // Goes through the rows within the triangle's bounds, checking which ones go through it
+    const getRowRange = (values: number[], rowAxis: number) => [
+      Math.max(0, Math.ceil((Math.min(...values) - min[rowAxis] - RAY_OFFSETS[rowAxis]) / VOXEL_SIZE - 0.5)),
+      Math.min(counts[rowAxis] - 1, Math.floor((Math.max(...values) - min[rowAxis] - RAY_OFFSETS[rowAxis]) / VOXEL_SIZE - 0.5)),
+    ];
+    const [minU, maxU] = getRowRange([x0, x1, x2], axisU);
+    const [minV, maxV] = getRowRange([y0, y1, y2], axisV);
+    for (let v = minV; v <= maxV; v++) {
+      const pv = min[axisV] + (v + 0.5) * VOXEL_SIZE + RAY_OFFSETS[axisV];
+      for (let u = minU; u <= maxU; u++) {
+        const pu = min[axisU] + (u + 0.5) * VOXEL_SIZE + RAY_OFFSETS[axisU];
+        const weightB = ((pu - x0) * (y2 - y0) - (x2 - x0) * (pv - y0)) / determinant;
+        const weightC = ((x1 - x0) * (pv - y0) - (pu - x0) * (y1 - y0)) / determinant;
+        if (weightB < 0 || weightC < 0 || weightB + weightC > 1) {
+          continue;
+        }
+
+        const rowIdx = u + v * counts[axisU];
+        if (!rows.has(rowIdx)) {
+          rows.set(rowIdx, []);
+        }
+        rows.get(rowIdx)!.push({
+          position: a[axis] + weightB * edge1[axis] + weightC * edge2[axis],
+          isEntering: normal < 0,
+          material,
+        });
+      }
+    }
+  }
+
+  // Faces between two materials are exported once for each, when they're at the same spot we leave one before going into the other
+  for (const crossings of rows.values()) {
+    crossings.sort((a, b) => a.position - b.position || Number(a.isEntering) - Number(b.isEntering));
+  }
+
+  return rows;
+}
+
+// Finds how many crossings a ray goes through before reaching a position
+function getCrossingsBefore(crossings: SurfaceCrossing[], position: number): number {
+  let low = 0, high = crossings.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (crossings[middle].position < position) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// Gets the position of a voxel's ray along an axis
+function getRayPosition({ min }: VoxelGrid, axis: number, voxel: number): number {
+  return min[axis] + (voxel + 0.5) * VOXEL_SIZE + RAY_OFFSETS[axis];
+}
+
+// Gets the crossings of the ray going through a voxel along an axis, if it crosses the surface at all
+function getVoxelCrossings(crossingsPerAxis: Map<number, SurfaceCrossing[]>[], grid: VoxelGrid, voxel: vec3, axis: number): SurfaceCrossing[] | undefined {
+  const [axisU, axisV] = OTHER_AXES[axis];
+  return crossingsPerAxis[axis].get(voxel[axisU] + voxel[axisV] * grid.counts[axisU]);
+}
+
+// Checks whether the ray going through a voxel along an axis is inside the surface at the voxel's center
+function isInsideAlong(crossingsPerAxis: Map<number, SurfaceCrossing[]>[], grid: VoxelGrid, voxel: vec3, axis: number): boolean {
+  const crossings = getVoxelCrossings(crossingsPerAxis, grid, voxel, axis);
+  return !!crossings && getCrossingsBefore(crossings, getRayPosition(grid, axis, voxel[axis])) % 2 == 1;
+}
+
+// Gets the material a voxel belongs to, or -1 when it's not inside along at least two axes
+function getVoxelMaterial(crossingsPerAxis: Map<number, SurfaceCrossing[]>[], grid: VoxelGrid, voxel: vec3): number {
+  let insideVotes = 0, closestDistance = Infinity, closestMaterial = -1, fallbackDistance = Infinity, fallbackMaterial = -1;
+  for (let axis = 0; axis < 3; axis++) {
+    const crossings = getVoxelCrossings(crossingsPerAxis, grid, voxel, axis);
+    if (!crossings) {
+      continue;
+    }
+
+    const position = getRayPosition(grid, axis, voxel[axis]);
+    const crossingsBefore = getCrossingsBefore(crossings, position);
+    if (crossingsBefore % 2 == 0) {
+      continue;
+    }
+    insideVotes++;
+
+    // Surfaces enclosing the voxel come first, so faces between two materials go to the right side
+    // Any other surface is only used when the faces are flipped, as those never enclose anything
+    const before = crossings[crossingsBefore - 1];
+    if (before.isEntering && position - before.position < closestDistance) {
+      closestDistance = position - before.position;
+      closestMaterial = before.material;
+    }
+    if (position - before.position < fallbackDistance) {
+      fallbackDistance = position - before.position;
+      fallbackMaterial = before.material;
+    }
+
+    const after = crossings[crossingsBefore] as SurfaceCrossing | undefined;
+    if (after && !after.isEntering && after.position - position < closestDistance) {
+      closestDistance = after.position - position;
+      closestMaterial = after.material;
+    }
+    if (after && after.position - position < fallbackDistance) {
+      fallbackDistance = after.position - position;
+      fallbackMaterial = after.material;
+    }
+  }
+
+  if (insideVotes < 2) {
+    return -1;
+  }
+  return closestMaterial >= 0 ? closestMaterial : fallbackMaterial;
+}
+
+// Goes through the voxels a row of crossings is inside of, between each entry and exit (plus one voxel of margin on each side)
+function forEachVoxelInside(crossings: SurfaceCrossing[], grid: VoxelGrid, axis: number, callback: (voxel: number) => void) {
+  let next = 0;
+  for (let idx = 0; idx + 1 < crossings.length; idx += 2) {
+    const first = Math.max(next, Math.floor((crossings[idx].position - grid.min[axis] - RAY_OFFSETS[axis]) / VOXEL_SIZE - 0.5));
+    const last = Math.min(grid.counts[axis] - 1, Math.ceil((crossings[idx + 1].position - grid.min[axis] - RAY_OFFSETS[axis]) / VOXEL_SIZE - 0.5));
+    for (let voxel = first; voxel <= last; voxel++) {
+      callback(voxel);
+    }
+    next = Math.max(next, last + 1);
+  }
+}
+
+// Helper function to get the volume in liters and voxels, rounded to the cubic centimeter as the total is measured with floating point math
+function getQuantities(volume: number): { volume: number, liters: number, voxels: number } {
+  const cubicCentimeters = Math.round(volume * 1e6);
+  return { volume: cubicCentimeters / 1e6, liters: cubicCentimeters / 1e3, voxels: Math.round(volume / VOXEL_VOLUME) };
+}
+
+// Helper function to escape a value for CSV
+function escapeCsv(value: string | number): string {
+  const text = `${value}`;
+  return /[",\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Estimates how much of each honeycomb material a construct uses, by voxelizing the surface of all honeycomb materials together
+ * A voxel is inside when rays along at least two of the axes cross the surface an odd number of times, and belongs to the material of the closest surface enclosing it along those rays
+ * The total is measured from the surface itself (via the divergence theorem), which is exact for closed constructs
+ */
+export function estimateHoneycomb(transformer: DuMeshTransformer): HoneycombEstimate {
+  const honeycombPairs = transformer.getGltfMaterialsWithGameMaterials()
+    .filter(({ gameMaterial }) => HONEYCOMB_CATEGORIES.includes(gameMaterial.category));
+
+  const materials: HoneycombMaterialEstimate[] = [];
+  let totalVolume = 0;
+  for (const mesh of transformer.getDocumentRoot().listMeshes()) {
+    const primitives = mesh.listPrimitives()
+      .filter(primitive => primitive.getIndices() && primitive.getAttribute('POSITION'))
+      .filter(primitive => honeycombPairs.some(({ material }) => material === primitive.getMaterial()));
+    if (primitives.length == 0) {
+      continue;
+    }
+
+    // Gathers the triangles of all honeycomb materials, as together they make up the surface of the construct
+    const triangles: SurfaceTriangle[] = [];
+    for (const primitive of primitives) {
+      const { material, gameMaterial } = honeycombPairs.find(({ material }) => material === primitive.getMaterial())!;
+      const itemId = transformer.getGameItemIdFromGltfMaterial(material);
+      let materialIdx = materials.findIndex(estimate => estimate.itemId == itemId);
+      if (materialIdx < 0) {
+        materialIdx = materials.push({
+          itemId,
+          title: gameMaterial.title,
+          category: gameMaterial.category,
+          triangles: 0,
+          volume: 0,
+          liters: 0,
+          voxels: 0,
+        }) - 1;
+      }
+
+      const primitiveVertexPosition = primitive.getAttribute('POSITION')!;
+      for (const vertexIds of getPrimitiveTriangles(primitive)) {
+        triangles.push({ vertices: vertexIds.map(id => primitiveVertexPosition.getElement(id, [])), material: materialIdx });
+        materials[materialIdx].triangles++;
+      }
+    }
+
+    // The signed volumes of a closed surface add up to the volume it encloses, no matter where they're measured from
+    const grid = getVoxelGrid(triangles);
+    totalVolume += triangles.reduce((volume, triangle) => volume + getSignedVolume(triangle.vertices, grid.min), 0);
+
+    // A voxel needs to be inside along at least two axes, so it's always inside along either X, or both Y and Z
+    // That means we only need to go through the spans where rays along X or Y are inside, instead of the whole grid
+    const crossingsPerAxis = [0, 1, 2].map(axis => getSurfaceCrossings(triangles, grid, axis));
+    const voxel: vec3 = [0, 0, 0];
+    for (const axis of [0, 1]) {
+      const [axisU, axisV] = OTHER_AXES[axis];
+      for (const [rowIdx, crossings] of crossingsPerAxis[axis]) {
+        voxel[axisU] = rowIdx % grid.counts[axisU];
+        voxel[axisV] = Math.floor(rowIdx / grid.counts[axisU]);
+        forEachVoxelInside(crossings, grid, axis, position => {
+          voxel[axis] = position;
+
+          // Voxels inside along X are only counted on the first pass
+          const isInsideAlongX = isInsideAlong(crossingsPerAxis, grid, voxel, 0);
+          if ((axis == 0) ? !isInsideAlongX : (isInsideAlongX || !isInsideAlong(crossingsPerAxis, grid, voxel, 1))) {
+            return;
+          }
+
+          const material = getVoxelMaterial(crossingsPerAxis, grid, voxel);
+          if (material >= 0) {
+            materials[material].voxels++;
+          }
+        });
+      }
+    }
+  }
+
+  const materialEstimates = materials
+    .map(estimate => ({ ...estimate, ...getQuantities(estimate.voxels * VOXEL_VOLUME) }))
+    .sort((a, b) => b.volume - a.volume);
+
+  return {
+    materials: materialEstimates,
+    total: getQuantities(Math.abs(totalVolume)),
+  };
+}
+
+/**
+ * Formats a honeycomb estimate as text, for printing into the terminal
+ */
+export function formatHoneycombEstimate(estimate: HoneycombEstimate): string {
+  return [
+    formatTable(
+      ['Material', 'Item ID', 'Category', 'Volume (m3)', 'Liters', 'Voxels'],
+      estimate.materials.map(material => [
+        material.title,
+        material.itemId,
+        material.category,
+        material.volume.toFixed(3),
+        material.liters.toFixed(1),
+        `${material.voxels}`,
+      ]),
+    ),
+    '',
+    `Total: ${estimate.total.volume.toFixed(3)} m3, ${estimate.total.liters.toFixed(1)} liters, ~${estimate.total.voxels} voxels`,
+  ].join('\n');
+}
+
+/**
+ * Formats a honeycomb estimate as CSV, with one row per material
+ */
+export function formatHoneycombEstimateCsv(estimate: HoneycombEstimate): string {
+  return [
+    ['item_id', 'title', 'category', 'triangles', 'volume_m3', 'liters', 'voxels'],
+    ...estimate.materials.map(material => [
+      material.itemId,
+      material.title,
+      material.category,
+      material.triangles,
+      material.volume.toFixed(3),
+      material.liters.toFixed(1),
+      material.voxels,
+    ]),
+  ].map(row => row.map(escapeCsv).join(',')).join('\n');
+}
\ No newline at end of file
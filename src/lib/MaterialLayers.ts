@@ -0,0 +1,99 @@
+import path from 'path';
+import { existsSync as fileExists, promises as fs } from 'fs';
+
+import Package from './Package';
+import { MaterialDefinition, MaterialDefinitionOverride, MaterialDefinitionOverrides, MaterialDefinitions } from './types';
+
+// Name of the project-level overrides file, looked up in the current directory
+export const PROJECT_MATERIALS_FILE = 'du-gltf.materials.json';
+
+/**
+ * Gets the user-level overrides file (such as ~/.config/du-gltf/materials.json)
+ */
+export function getUserMaterialsFile(): string {
+  return path.join(Package.getUserConfigDirectory(), 'materials.json');
+}
+
+/**
+ * Gets the project-level overrides file, in the current directory
+ */
+export function getProjectMaterialsFile(): string {
+  return path.join(process.cwd(), PROJECT_MATERIALS_FILE);
+}
+
+/**
+ * Lists the user and project override files which exist, in the order they should be applied
+ */
+export function getDefaultMaterialOverrideFiles(): string[] {
+  return [getUserMaterialsFile(), getProjectMaterialsFile()]
+    .filter(file => fileExists(file));
+}
+
+/**
+ * Loads an overrides file, texture paths starting with "./" or "../" are resolved relative to the file itself
+ */
+export async function loadMaterialOverridesFile(file: string): Promise<MaterialDefinitionOverrides> {
+  let overrides: MaterialDefinitionOverrides;
+  try {
+    overrides = JSON.parse((await fs.readFile(file)).toString());
+  } catch (err) {
+    throw new Error(`Could not load material overrides from "${file}": ${(err as Error).message}`);
+  }
+
+  if (!overrides || typeof overrides.items !== 'object') {
+    throw new Error(`Invalid material overrides file, missing "items" object: ${file}`);
+  }
+
+  for (const [itemId, override] of Object.entries(overrides.items)) {
+    if (override.albedo !== undefined && !(Array.isArray(override.albedo) && override.albedo.length == 3 && override.albedo.every(value => typeof value === 'number'))) {
+      throw new Error(`Invalid albedo for item "${itemId}" in "${file}", it must be an array of three numbers`);
+    }
+
+    for (const textureType in override.files || {}) {
+      const textureFile = override.files![textureType];
+      if (textureFile && /^\.\.?[\\/]/.test(textureFile)) {
+        override.files![textureType] = path.resolve(path.dirname(file), textureFile);
+      }
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Applies a layer of overrides on top of material definitions, merging per item id
+ * Texture files set to null are removed, and unknown item ids are added as new materials
+ */
+export function mergeMaterialDefinitions(base: MaterialDefinitions, overrides: MaterialDefinitionOverrides): MaterialDefinitions {
+  const items: Record<string, MaterialDefinition> = { ...base.items };
+
+  for (const [itemId, override] of Object.entries(overrides.items)) {
+    const current: MaterialDefinition = items[itemId] || {
+      materialId: itemId,
+      title: itemId,
+      icon: '',
+      category: '',
+      soundMaterial: '',
+      texture: '',
+      albedo: [1, 1, 1],
+      files: {},
+    };
+
+    const files = { ...current.files };
+    for (const [textureType, textureFile] of Object.entries(override.files || {})) {
+      if (textureFile === null) {
+        delete files[textureType];
+      } else if (textureFile !== undefined) {
+        files[textureType] = textureFile;
+      }
+    }
+
+    items[itemId] = {
+      ...current,
+      ...(override as Omit<MaterialDefinitionOverride, 'files'>),
+      files,
+    };
+  }
+
+  return { ...base, items };
+}
\ No newline at end of file
@@ -0,0 +1,145 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { parseDDSHeader } from 'dds-ktx-parser';
+
+import { MaterialCategories, MaterialDefinitions } from './types';
+
+export enum MaterialIssueType {
+  MISSING_TEXTURE = 'missing_texture',
+  CORRUPT_TEXTURE = 'corrupt_texture',
+  UNKNOWN_CATEGORY = 'unknown_category',
+  MISSING_ALBEDO = 'missing_albedo',
+};
+
+export type MaterialIssue = {
+  itemId: string;
+  title: string;
+  type: MaterialIssueType;
+  textureType?: string;
+  file?: string;
+  message: string;
+};
+
+export type MaterialVerificationReport = {
+  dataDirectory: string;
+  checkedItems: number;
+  checkedTextures: number;
+  issues: MaterialIssue[];
+};
+
+// The DDS header is 4 bytes of magic, 124 bytes of header, plus 20 bytes of the optional DX10 header
+const DDS_HEADER_SIZE = 4 + 124 + 20;
+
+// Checks a single texture file, returning an issue (without item info) when something is wrong
+async function verifyTextureFile(file: string): Promise<{ type: MaterialIssueType, message: string } | null> {
+  const stats = await fs.stat(file).catch(() => null);
+  if (!stats || !stats.isFile()) {
+    return { type: MaterialIssueType.MISSING_TEXTURE, message: `Texture file not found` };
+  }
+
+  // We only know how to check DDS files, anything else is assumed valid if it exists
+  if (path.extname(file).toLowerCase() != '.dds') {
+    return null;
+  }
+
+  // Reads the header only, so we don't need to load the whole texture
+  const header = Buffer.alloc(DDS_HEADER_SIZE);
+  const handle = await fs.open(file, 'r');
+  try {
+    await handle.read(header, 0, DDS_HEADER_SIZE, 0);
+  } finally {
+    await handle.close();
+  }
+
+  let dds;
+  try {
+    dds = parseDDSHeader(header);
+  } catch (err) {
+    dds = undefined;
+  }
+
+  if (!dds || dds.layers.length == 0) {
+    return { type: MaterialIssueType.CORRUPT_TEXTURE, message: `Invalid or unsupported DDS header` };
+  }
+
+  // Ensures the file actually has all the data the header says it does
+  const layer = dds.layers[0];
+  if (stats.size < layer.offset + layer.length) {
+    return { type: MaterialIssueType.CORRUPT_TEXTURE, message: `DDS file is truncated, expected at least ${layer.offset + layer.length} bytes, got ${stats.size}` };
+  }
+
+  return null;
+}
+
+/**
+ * Checks every material definition against the game's data directory
+ */
+export async function verifyMaterialDefinitions(materialDefinitions: MaterialDefinitions, dataDirectory: string): Promise<MaterialVerificationReport> {
+  const report: MaterialVerificationReport = {
+    dataDirectory: dataDirectory,
+    checkedItems: 0,
+    checkedTextures: 0,
+    issues: [],
+  };
+
+  // Many materials share the same textures, so we only check each file once
+  const checkedFiles: Record<string, Awaited<ReturnType<typeof verifyTextureFile>>> = {};
+
+  for (const [itemId, material] of Object.entries(materialDefinitions.items)) {
+    const issue = (type: MaterialIssueType, message: string, textureType?: string, file?: string) => report.issues.push({
+      itemId, title: material.title, type, textureType, file, message,
+    });
+    report.checkedItems++;
+
+    if (!MaterialCategories.includes(material.category)) {
+      issue(MaterialIssueType.UNKNOWN_CATEGORY, `Unknown category "${material.category}"`);
+    }
+
+    if (!Array.isArray(material.albedo) || material.albedo.length < 3) {
+      issue(MaterialIssueType.MISSING_ALBEDO, `Material has no albedo`);
+    }
+
+    for (const [textureType, textureFile] of Object.entries(material.files || {})) {
+      const file = path.isAbsolute(textureFile)
+        ? textureFile
+        : path.join(dataDirectory, textureFile);
+
+      if (checkedFiles[file] === undefined) {
+        checkedFiles[file] = await verifyTextureFile(file);
+        report.checkedTextures++;
+      }
+
+      const textureIssue = checkedFiles[file];
+      if (textureIssue) {
+        issue(textureIssue.type, textureIssue.message, textureType, textureFile);
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Formats the verification report as text
+ */
+export function formatMaterialVerificationReport(report: MaterialVerificationReport): string {
+  const lines = [
+    `Data directory: ${report.dataDirectory}`,
+    `Checked ${report.checkedItems} materials and ${report.checkedTextures} texture files, found ${report.issues.length} issues`,
+  ];
+
+  for (const type of Object.values(MaterialIssueType)) {
+    const issues = report.issues.filter(issue => issue.type == type);
+    if (issues.length == 0) {
+      continue;
+    }
+
+    lines.push('', `${type} (${issues.length}):`);
+    for (const issue of issues) {
+      const texture = issue.textureType ? ` [${issue.textureType}] ${issue.file}` : '';
+      lines.push(`  ${issue.itemId} "${issue.title}"${texture}: ${issue.message}`);
+    }
+  }
+
+  return lines.join('\n');
+}
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { Vector } from 'vector-math';
+import { Accessor, Primitive, PropertyType, vec3 } from '@gltf-transform/core';
+import { VectorObject } from 'vector-math/dist/lib/vector';
+
+export type TriangleVertices = [vec3, vec3, vec3];
+
+// The six axis-aligned directions a voxel face can be pointing at
+export const directions = {
+  right: new Vector(1, 0, 0),
+  left: new Vector(-1, 0, 0),
+  top: new Vector(0, 1, 0),
+  bottom: new Vector(0, -1, 0),
+  front: new Vector(0, 0, -1),
+  back: new Vector(0, 0, 1),
+};
+
+export function vectorToArray(vector: VectorObject): vec3 {
+  return [vector.i, vector.j, vector.k];
+}
+
+/**
+ * Gets the axis-aligned direction closest to a normal
+ */
+export function getFaceDirection(normal: vec3): vec3 {
+  let closestDirection: vec3 = [0, 0, 0], closestSimilarity: number = -Infinity;
+  let similarity;
+  for (const direction of Object.values(directions)) {
+    similarity = new Vector(...normal).Dot(direction);
+    if (similarity > closestSimilarity) {
+      closestDirection = vectorToArray(direction);
+      closestSimilarity = similarity;
+    }
+  }
+
+  return closestDirection;
+}
+
+/**
+ * Gets the normal of a triangle from its edges, using the vertex normals to tell which side it's facing
+ */
+export function getTriangleNormal(positions: TriangleVertices, normals: TriangleVertices | null): vec3 {
+  const [a, b, c] = positions.map(position => new Vector(...position));
+  const faceNormal = b.Subtract(a).Cross(c.Subtract(a));
+
+  // Vertex normals are only used to tell which side the triangle is facing, or when the triangle has no area
+  if (normals) {
+    const vertexNormal = new Vector(...normals[0]).Add(new Vector(...normals[1]), new Vector(...normals[2]));
+    const similarity = faceNormal.Dot(vertexNormal);
+    if (similarity == 0) {
+      return vectorToArray(vertexNormal);
+    } else if (similarity < 0) {
+      return vectorToArray(new Vector(0, 0, 0).Subtract(faceNormal));
+    }
+  }
+
+  return vectorToArray(faceNormal);
+}
+
+/**
+ * Lists the vertex indices for every triangle in a primitive
+ */
+export function getPrimitiveTriangles(primitive: Primitive): [number, number, number][] {
+  const primitiveVertexIndex = primitive.getIndices()!;
+
+  const triangles: [number, number, number][] = [];
+  for (let idx = 0; idx < primitiveVertexIndex.getCount(); idx += 3) {
+    triangles.push([
+      primitiveVertexIndex.getScalar(idx + 0),
+      primitiveVertexIndex.getScalar(idx + 1),
+      primitiveVertexIndex.getScalar(idx + 2),
+    ]);
+  }
+
+  return triangles;
+}
+
+/**
+ * Gets the normal for every triangle in a primitive
+ */
+export function getPrimitiveTriangleNormals(primitive: Primitive): vec3[] {
+  const primitiveVertexPosition = primitive.getAttribute('POSITION')!;
+  const primitiveVertexNormal = primitive.getAttribute('NORMAL');
+
+  return getPrimitiveTriangles(primitive).map(vertexIds => getTriangleNormal(
+    vertexIds.map(id => primitiveVertexPosition.getElement(id, [])) as TriangleVertices,
+    primitiveVertexNormal ? vertexIds.map(id => primitiveVertexNormal.getElement(id, [])) as TriangleVertices : null,
+  ));
+}
+
+/**
+ * Gets the axis-aligned direction for every triangle in a primitive
+ */
+export function getPrimitiveTriangleDirections(primitive: Primitive): vec3[] {
+  return getPrimitiveTriangleNormals(primitive).map(normal => getFaceDirection(normal));
+}
+
+/**
+ * Makes sure no vertex is shared between triangles of different groups (such as projection planes or UV charts)
+ * The first group a vertex is used by keeps the original vertex, any other groups get a copy of it with all its attributes
+ * @param triangleGroups The group of each triangle, in the same order as the indices
+ */
+export function splitVerticesPerGroup(primitive: Primitive, triangleGroups: string[]) {
+  const primitiveVertexIndex = primitive.getIndices()!;
+  const vertexCount = primitive.getAttribute('POSITION')!.getCount();
+
+  // Keeps track of which vertex to use for each original vertex and group, along with any vertices we need to copy
+  const vertexIdsByGroup = new Map<string, number>();
+  const usedVertexIds = new Set<number>();
+  const copiedVertexIds: number[] = [];
+
+  const indices: number[] = [];
+  getPrimitiveTriangles(primitive).forEach((vertexIds, triangleIdx) => {
+    for (const vertexId of vertexIds) {
+      const key = `${vertexId}:${triangleGroups[triangleIdx]}`;
+      if (!vertexIdsByGroup.has(key)) {
+        if (usedVertexIds.has(vertexId)) {
+          vertexIdsByGroup.set(key, vertexCount + copiedVertexIds.length);
+          copiedVertexIds.push(vertexId);
+        } else {
+          vertexIdsByGroup.set(key, vertexId);
+          usedVertexIds.add(vertexId);
+        }
+      }
+      indices.push(vertexIdsByGroup.get(key)!);
+    }
+  });
+
+  // Nothing to split
+  if (copiedVertexIds.length == 0) {
+    return;
+  }
+
+  // Copies the vertices on every attribute, including morph targets
+  const attributes = [
+    ...primitive.listAttributes(),
+    ...primitive.listTargets().flatMap(target => target.listAttributes()),
+  ];
+  for (const attribute of new Set(attributes)) {
+    const elementSize = attribute.getElementSize();
+    const oldArray = attribute.getArray()!;
+    const newArray = new (oldArray.constructor as new (length: number) => typeof oldArray)((vertexCount + copiedVertexIds.length) * elementSize);
+    newArray.set(oldArray.subarray(0, vertexCount * elementSize));
+    copiedVertexIds.forEach((vertexId, copyIdx) => {
+      newArray.set(oldArray.subarray(vertexId * elementSize, (vertexId + 1) * elementSize), (vertexCount + copyIdx) * elementSize);
+    });
+    attribute.setArray(newArray);
+  }
+
+  // Updates the indices, switching into 32-bit ones if we're now over the 16-bit limit
+  const finalVertexCount = vertexCount + copiedVertexIds.length;
+  primitiveVertexIndex.setArray((finalVertexCount > 65535 || primitiveVertexIndex.getArray() instanceof Uint32Array)
+    ? new Uint32Array(indices)
+    : new Uint16Array(indices));
+}
+
+/**
+ * Disposes accessors that were replaced, as long as nothing else uses them anymore, so they don't end up in the output buffer
+ */
+export function disposeUnusedAccessors(accessors: (Accessor | null)[]) {
+  for (const accessor of new Set(accessors)) {
+    if (accessor && !accessor.isDisposed() && accessor.listParents().every(parent => parent.propertyType == PropertyType.ROOT)) {
+      accessor.dispose();
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,225 @@
+import { Accessor, Document, Mesh, Primitive, vec3 } from '@gltf-transform/core';
+
+import { getFaceDirection, getPrimitiveTriangleNormals, getPrimitiveTriangles, splitVerticesPerGroup } from './MeshGeometry';
+
+export type UnwrapOptions = {
+  // The size of the texture the unwrap is meant for, in pixels
+  resolution?: number;
+  // Empty space around each chart, in pixels, so they don't bleed into each other when filtering
+  padding?: number;
+  // How many pixels a meter takes, when not set the charts are scaled to fill the whole texture
+  texelsPerMeter?: number;
+};
+
+export type UnwrapResult = {
+  // How many charts were packed
+  charts: number;
+  // The final density, can be lower than requested when the charts don't fit
+  texelsPerMeter: number;
+  // The final padding, can be lower than requested when there are too many charts for it
+  padding: number;
+};
+
+// A group of connected coplanar triangles, flattened into 2D
+type Chart = {
+  primitive: Primitive;
+  vertexIds: Set<number>;
+  // Which axes of the vertex positions are used as U and V
+  axes: [number, number];
+  min: [number, number];
+  max: [number, number];
+  size: [number, number];
+};
+
+// Where each chart ended up in the texture, in pixels
+type ChartPlacement = [number, number];
+
+// Helper function to get a hash of the vertex position
+function getHashFromPosition(position: number[]): string {
+  return position.map(component => component.toFixed(4))
+    .join('|');
+}
+
+// Gets a hash for the plane a triangle lies on, so only coplanar triangles end up on the same chart
+function getHashFromPlane(normal: vec3, position: vec3): string {
+  const length = Math.hypot(...normal) || 1;
+  const unitNormal = normal.map(component => component / length);
+  const distance = unitNormal[0] * position[0] + unitNormal[1] * position[1] + unitNormal[2] * position[2];
+  return `${unitNormal.map(component => component.toFixed(3)).join('|')}@${distance.toFixed(3)}`;
+}
+
+// Finds the root of a triangle on our union-find structure, flattening the path along the way
+function findRoot(parents: number[], idx: number): number {
+  while (parents[idx] != idx) {
+    parents[idx] = parents[parents[idx]];
+    idx = parents[idx];
+  }
+  return idx;
+}
+
+// Packs the charts into rows (shelves) at a given scale, returns null when they don't fit
+function packChartsAtScale(charts: Chart[], order: number[], scale: number, resolution: number, padding: number): ChartPlacement[] | null {
+  const placements: ChartPlacement[] = new Array(charts.length);
+  let x = 0, y = 0, rowHeight = 0;
+  for (const chartIdx of order) {
+    const width = Math.ceil(charts[chartIdx].size[0] * scale) + 2 * padding;
+    const height = Math.ceil(charts[chartIdx].size[1] * scale) + 2 * padding;
+
+    // Starts a new row when we're out of space
+    if (x + width > resolution) {
+      x = 0;
+      y += rowHeight;
+      rowHeight = 0;
+    }
+    if (width > resolution || y + height > resolution) {
+      return null;
+    }
+
+    placements[chartIdx] = [x, y];
+    x += width;
+    rowHeight = Math.max(rowHeight, height);
+  }
+
+  return placements;
+}
+
+/**
+ * Builds a non-overlapping unwrap for a mesh, grouping connected coplanar triangles into charts and packing them into the unit square
+ * Vertices shared between charts are split, so this changes the mesh geometry
+ * Returns null, leaving the mesh untouched, when there are more charts than pixels to fit them in
+ * @param attributeName Which attribute to write the UVs into, usually TEXCOORD_1 for lightmaps
+ */
+export function unwrapMesh(document: Document, mesh: Mesh, attributeName: string = 'TEXCOORD_1', options: UnwrapOptions = {}): UnwrapResult | null {
+  return unwrapMeshes(document, [mesh], attributeName, options);
+}
+
+/**
+ * Same as unwrapMesh(), but packs the charts of multiple meshes into the same unit square, such as when they share a texture
+ */
+export function unwrapMeshes(document: Document, meshes: Mesh[], attributeName: string = 'TEXCOORD_1', { resolution = 1024, padding = 4, texelsPerMeter = undefined }: UnwrapOptions = {}): UnwrapResult | null {
+  const charts: Chart[] = [];
+  const primitives = new Set(meshes.flatMap(mesh => mesh.listPrimitives()));
+  const primitiveCharts = new Map<Primitive, { triangleCharts: number[], chartsByRoot: Map<number, Chart> }>();
+
+  primitives.forEach((primitive) => {
+    const primitiveVertexPosition = primitive.getAttribute('POSITION')!;
+    const triangles = getPrimitiveTriangles(primitive);
+    const normals = getPrimitiveTriangleNormals(primitive);
+
+    // Joins any coplanar triangles sharing an edge
+    const parents = triangles.map((triangle, triangleIdx) => triangleIdx);
+    const trianglesByEdge = new Map<string, number>();
+    triangles.forEach((vertexIds, triangleIdx) => {
+      const positionHashes = vertexIds.map(id => getHashFromPosition(primitiveVertexPosition.getElement(id, [])));
+      const planeHash = getHashFromPlane(normals[triangleIdx], primitiveVertexPosition.getElement(vertexIds[0], []) as vec3);
+      for (let i = 0; i < 3; i++) {
+        const edgeHash = `${planeHash}:${[positionHashes[i], positionHashes[(i + 1) % 3]].sort().join(':')}`;
+        const otherTriangleIdx = trianglesByEdge.get(edgeHash);
+        if (otherTriangleIdx === undefined) {
+          trianglesByEdge.set(edgeHash, triangleIdx);
+        } else {
+          parents[findRoot(parents, triangleIdx)] = findRoot(parents, otherTriangleIdx);
+        }
+      }
+    });
+
+    // Flattens each chart on the axis-aligned plane closest to it, and calculates its bounds
+    const triangleCharts = triangles.map((triangle, triangleIdx) => findRoot(parents, triangleIdx));
+    const chartsByRoot = new Map<number, Chart>();
+    triangles.forEach((vertexIds, triangleIdx) => {
+      let chart = chartsByRoot.get(triangleCharts[triangleIdx]);
+      if (!chart) {
+        const depthAxis = getFaceDirection(normals[triangleIdx]).findIndex(component => component != 0);
+        chart = {
+          primitive,
+          vertexIds: new Set(),
+          axes: [0, 1, 2].filter(axis => axis != depthAxis) as [number, number],
+          min: [Infinity, Infinity],
+          max: [-Infinity, -Infinity],
+          size: [0, 0],
+        };
+        chartsByRoot.set(triangleCharts[triangleIdx], chart);
+        charts.push(chart);
+      }
+
+      for (const vertexId of vertexIds) {
+        const position = primitiveVertexPosition.getElement(vertexId, []);
+        for (let i = 0; i < 2; i++) {
+          chart.min[i] = Math.min(chart.min[i], position[chart.axes[i]]);
+          chart.max[i] = Math.max(chart.max[i], position[chart.axes[i]]);
+        }
+      }
+    });
+
+    for (const chart of chartsByRoot.values()) {
+      chart.size = [chart.max[0] - chart.min[0], chart.max[1] - chart.min[1]];
+    }
+    primitiveCharts.set(primitive, { triangleCharts, chartsByRoot });
+  });
+
+  // Packs taller charts first, which keeps rows tight
+  const order = charts.map((chart, chartIdx) => chartIdx)
+    .sort((a, b) => charts[b].size[1] - charts[a].size[1]);
+
+  // Every chart takes at least a pixel plus its padding, so the padding shrinks when there are too many charts for it
+  let chartPadding = padding;
+  while (chartPadding > 0 && charts.length * (1 + 2 * chartPadding) ** 2 > resolution * resolution) {
+    chartPadding--;
+  }
+
+  // Starts at the requested density (or one that would fill the whole texture) and shrinks until everything fits
+  const totalArea = charts.reduce((area, chart) => area + chart.size[0] * chart.size[1], 0);
+  const maxChartSize = charts.reduce((size, chart) => Math.max(size, ...chart.size), 0);
+  let scale = texelsPerMeter || (totalArea > 0 ? resolution / Math.sqrt(totalArea) : 1);
+  let placements: ChartPlacement[] | null = null;
+  for (let attempt = 0; attempt < 500 && !placements; attempt++) {
+    placements = packChartsAtScale(charts, order, scale, resolution, chartPadding);
+    if (placements) {
+      break;
+    }
+
+    // Once every chart is down to a single pixel, only less padding can make them fit
+    if (scale * maxChartSize > 1) {
+      scale *= 0.95;
+    } else if (chartPadding > 0) {
+      chartPadding--;
+    } else {
+      break;
+    }
+  }
+  if (!placements) {
+    return null;
+  }
+
+  // Every chart needs its own vertices, as the same position will have a different UV on each chart
+  primitiveCharts.forEach(({ triangleCharts, chartsByRoot }, primitive) => {
+    splitVerticesPerGroup(primitive, triangleCharts.map(chart => chart.toString()));
+    getPrimitiveTriangles(primitive).forEach((vertexIds, triangleIdx) => {
+      const chart = chartsByRoot.get(triangleCharts[triangleIdx])!;
+      for (const vertexId of vertexIds) {
+        chart.vertexIds.add(vertexId);
+      }
+    });
+  });
+
+  // Writes the final UVs
+  const uvAccessors = new Map<Primitive, Accessor>();
+  for (const primitive of primitives) {
+    const uvAccessor = document.createAccessor()
+      .setType(Accessor.Type.VEC2)
+      .setArray(new Float32Array(2 * primitive.getAttribute('POSITION')!.getCount()));
+    primitive.setAttribute(attributeName, uvAccessor);
+    uvAccessors.set(primitive, uvAccessor);
+  }
+  charts.forEach((chart, chartIdx) => {
+    const primitiveVertexPosition = chart.primitive.getAttribute('POSITION')!;
+    for (const vertexId of chart.vertexIds) {
+      const position = primitiveVertexPosition.getElement(vertexId, []);
+      uvAccessors.get(chart.primitive)!.setElement(vertexId, [0, 1].map(
+        i => (placements![chartIdx][i] + chartPadding + (position[chart.axes[i]] - chart.min[i]) * scale) / resolution
+      ));
+    }
+  });
+
+  return { charts: charts.length, texelsPerMeter: scale, padding: chartPadding };
+}
\ No newline at end of file
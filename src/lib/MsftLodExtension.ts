@@ -0,0 +1,102 @@
+import { Extension, ExtensionProperty, IProperty, Node, Nullable, PropertyType, ReaderContext, WriterContext } from '@gltf-transform/core';
+
+const MSFT_LOD = 'MSFT_lod';
+
+interface ILod extends IProperty {
+  nodes: Node[];
+}
+
+type LodNodeDef = {
+  ids: number[];
+};
+
+/**
+ * The lower levels of detail for a node, from the most to the least detailed
+ */
+export class Lod extends ExtensionProperty<ILod> {
+  public static EXTENSION_NAME = MSFT_LOD;
+  public declare extensionName: typeof MSFT_LOD;
+  public declare propertyType: 'Lod';
+  public declare parentTypes: [PropertyType.NODE];
+
+  protected init(): void {
+    this.extensionName = MSFT_LOD;
+    this.propertyType = 'Lod';
+    this.parentTypes = [PropertyType.NODE];
+  }
+
+  protected getDefaults(): Nullable<ILod> {
+    return Object.assign(super.getDefaults() as IProperty, { nodes: [] });
+  }
+
+  /**
+   * Adds a level of detail, after any existing ones
+   */
+  public addNode(node: Node): this {
+    return this.addRef('nodes', node);
+  }
+
+  /**
+   * Removes a level of detail
+   */
+  public removeNode(node: Node): this {
+    return this.removeRef('nodes', node);
+  }
+
+  /**
+   * Lists the levels of detail, from the most to the least detailed
+   */
+  public listNodes(): Node[] {
+    return this.listRefs('nodes');
+  }
+}
+
+/**
+ * Support for the MSFT_lod extension, which isn't included in glTF Transform
+ * The node holding the extension is the most detailed level, any other levels are only referenced by it and not part of the scene
+ */
+export class MSFTLod extends Extension {
+  public readonly extensionName = MSFT_LOD;
+  public static readonly EXTENSION_NAME = MSFT_LOD;
+
+  /**
+   * Creates a new list of levels of detail, to be attached to a node
+   */
+  public createLod(): Lod {
+    return new Lod(this.document.getGraph());
+  }
+
+  public read(context: ReaderContext): this {
+    (context.jsonDoc.json.nodes || []).forEach((nodeDef, nodeIdx) => {
+      const lodDef = nodeDef.extensions?.[MSFT_LOD] as LodNodeDef | undefined;
+      if (!lodDef) {
+        return;
+      }
+
+      const lod = this.createLod();
+      for (const id of lodDef.ids || []) {
+        lod.addNode(context.nodes[id]);
+      }
+      context.nodes[nodeIdx].setExtension(MSFT_LOD, lod);
+    });
+
+    return this;
+  }
+
+  public write(context: WriterContext): this {
+    for (const node of this.document.getRoot().listNodes()) {
+      const lod = node.getExtension<Lod>(MSFT_LOD);
+      if (!lod || lod.listNodes().length == 0) {
+        continue;
+      }
+
+      const nodeDef = context.jsonDoc.json.nodes![context.nodeIndexMap.get(node)!];
+      nodeDef.extensions = nodeDef.extensions || {};
+      nodeDef.extensions[MSFT_LOD] = {
+        ids: lod.listNodes().map(lodNode => context.nodeIndexMap.get(lodNode)!),
+      } as LodNodeDef;
+    }
+
+    return this;
+  }
+}
\ No newline at end of file
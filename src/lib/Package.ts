@@ -1,5 +1,7 @@
 import fs from 'fs';
 import path from 'path';
+import os from 'os';
+import { env } from 'process';
 
 /**
  * Functions for internal use only
@@ -42,4 +44,25 @@ export default class Package {
   public static getDataDirectory(): string {
     return path.join(this.getRootDirectory(), 'data');
   }
+
+  /**
+   * Gets the directory for user-level settings (such as ~/.config/du-gltf)
+   */
+  public static getUserConfigDirectory(): string {
+    return os.platform() == 'win32'
+      ? path.join(env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming'), 'du-gltf')
+      : path.join(env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'du-gltf');
+  }
+
+  /**
+   * Loads one of the optional packages, which aren't always installed
+   * @param feature What the package is needed for, shown in the error message
+   */
+  public static requireOptional(packageName: string, feature: string): any {
+    try {
+      return require(packageName);
+    } catch (err) {
+      throw new Error(`The "${packageName}" package is required for ${feature}, install it with "npm i ${packageName}"`);
+    }
+  }
 }
\ No newline at end of file
@@ -60,7 +60,7 @@ export default class RgbaBuffer {
   public setPixelByIndex(index: number, rgba: ColorAny) {
     if (!Array.isArray(rgba) && typeof rgba == 'object') {
       // @ts-ignore
-      rgba = [rgba.r, rgba.g, rgba.b, rgba.a || 255];
+      rgba = [rgba.r, rgba.g, rgba.b, rgba.a ?? 255];
     }
 
     const [r, g, b, a] = rgba;
@@ -69,7 +69,7 @@ export default class RgbaBuffer {
     this.buffer[offset + 0] = r;
     this.buffer[offset + 1] = g;
     this.buffer[offset + 2] = b;
-    this.buffer[offset + 3] = a || 255;
+    this.buffer[offset + 3] = a ?? 255;
   }
 
   public setPixel(x: number, y: number, rgba: ColorAny) {
@@ -104,6 +104,95 @@ export default class RgbaBuffer {
     this.transformArea(1, 1, this.width, this.height, callback);
   }
 
+  public sample(u: number, v: number): ColorVec4 {
+    // Bilinear sampling with repeating edges, with UVs the same as in glTF (0, 0 is the top-left corner)
+    const x = u * this.width - 0.5;
+    const y = v * this.height - 0.5;
+    const x0 = Math.floor(x), y0 = Math.floor(y);
+    const fx = x - x0, fy = y - y0;
+
+    const wrap = (value: number, size: number) => ((value % size) + size) % size;
+    const result: ColorVec4 = [0, 0, 0, 0];
+    for (const [dx, dy, weight] of [[0, 0, (1 - fx) * (1 - fy)], [1, 0, fx * (1 - fy)], [0, 1, (1 - fx) * fy], [1, 1, fx * fy]]) {
+      const offset = 4 * (wrap(y0 + dy, this.height) * this.width + wrap(x0 + dx, this.width));
+      for (let channel = 0; channel < 4; channel++) {
+        result[channel] += this.buffer[offset + channel] * weight;
+      }
+    }
+
+    return result;
+  }
+
+  public clone(): RgbaBuffer {
+    return new RgbaBuffer(this.width, this.height, Buffer.from(this.buffer));
+  }
+
+  public resize(width: number, height: number): RgbaBuffer {
+    // Resizes one axis at a time, averaging every source pixel covered by each target pixel (box filter)
+    const horizontal = RgbaBuffer.resampleAxis(this.buffer, this.width, this.height, width, true);
+    const vertical = RgbaBuffer.resampleAxis(horizontal, width, this.height, height, false);
+
+    const result = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < result.length; i++) {
+      result[i] = Math.min(255, Math.max(0, Math.round(vertical[i])));
+    }
+
+    return new RgbaBuffer(width, height, result);
+  }
+
+  public fitWithin(maxSize: number): RgbaBuffer {
+    const scale = maxSize / Math.max(this.width, this.height);
+    if (scale >= 1) {
+      return this;
+    }
+
+    return this.resize(
+      Math.max(1, Math.round(this.width * scale)),
+      Math.max(1, Math.round(this.height * scale)),
+    );
+  }
+
+  private static resampleAxis(source: ArrayLike<number>, width: number, height: number, newSize: number, isHorizontal: boolean): Float32Array {
+    const oldSize = isHorizontal ? width : height;
+    const outWidth = isHorizontal ? newSize : width;
+    const outHeight = isHorizontal ? height : newSize;
+    const result = new Float32Array(outWidth * outHeight * 4);
+    const ratio = oldSize / newSize;
+
+    for (let target = 0; target < newSize; target++) {
+      // The span of source pixels covered by this target pixel, when upscaling this is less than a pixel
+      const start = target * ratio;
+      const end = Math.max(start + 1, (target + 1) * ratio);
+      const first = Math.floor(start);
+      const last = Math.min(oldSize, Math.ceil(end));
+
+      // Calculates how much each source pixel contributes
+      const weights: [number, number][] = [];
+      let totalWeight = 0;
+      for (let sourcePixel = first; sourcePixel < last; sourcePixel++) {
+        const weight = Math.min(end, sourcePixel + 1) - Math.max(start, sourcePixel);
+        if (weight > 0) {
+          weights.push([Math.min(sourcePixel, oldSize - 1), weight]);
+          totalWeight += weight;
+        }
+      }
+
+      // Applies it on every line of the other axis
+      const lines = isHorizontal ? height : width;
+      for (let line = 0; line < lines; line++) {
+        const targetOffset = 4 * (isHorizontal ? line * outWidth + target : target * outWidth + line);
+        for (const [sourcePixel, weight] of weights) {
+          const sourceOffset = 4 * (isHorizontal ? line * width + sourcePixel : sourcePixel * width + line);
+          for (let channel = 0; channel < 4; channel++) {
+            result[targetOffset + channel] += source[sourceOffset + channel] * weight / totalWeight;
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
   async toJimpImage() {
     const image = await Jimp.create(this.width, this.height);
     const imageBuffer = image.bitmap.data;
@@ -113,8 +202,15 @@ export default class RgbaBuffer {
     return image;
   }
 
-  async toConvertedBuffer(mime: ImageMimeType) {
-    return await (await this.toJimpImage()).getBufferAsync(mime);
+  async toConvertedBuffer(mime: ImageMimeType, quality?: number) {
+    const image = await this.toJimpImage();
+
+    // Only affects lossy formats, such as JPEG
+    if (quality !== undefined) {
+      image.quality(quality);
+    }
+
+    return await image.getBufferAsync(mime);
   }
 
   static fromJimpImage(image: Jimp) {
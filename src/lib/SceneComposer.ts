@@ -0,0 +1,167 @@
+import path from 'path';
+import { existsSync as fileExists, promises as fs } from 'fs';
+import { Document, Logger, Material, Node, PropertyType, Scene, vec3, vec4 } from '@gltf-transform/core';
+import { dedup, prune } from '@gltf-transform/functions';
+
+// @ts-ignore
+import { fromEuler } from 'gl-matrix/quat';
+
+import DuMeshTransformer from './DuMeshTransformer';
+import { MaterialDefinitions } from './types';
+
+export type ComposeLayoutConstruct = {
+  // The exported construct, paths starting with "./" or "../" are resolved relative to the layout file
+  file: string;
+  // The name of the construct's node, defaults to the file name
+  name?: string;
+  // In meters
+  position?: vec3;
+  // Either a quaternion (x, y, z, w) or Euler angles in degrees (x, y, z)
+  rotation?: vec3 | vec4;
+};
+
+export type ComposeLayout = {
+  // The name of the scene, defaults to the layout file name when loaded from a file
+  name?: string;
+  constructs: ComposeLayoutConstruct[];
+};
+
+export type ComposeOptions = {
+  // Queues the transforms for each construct, this is where event listeners should also be attached
+  prepare?: (transformer: DuMeshTransformer, construct: ComposeLayoutConstruct) => void | Promise<void>;
+  // Custom material definitions, defaults to the ones bundled with the package
+  materialDefinitions?: MaterialDefinitions;
+  // The scale applied to each construct while processing it, such as 100 for centimeters
+  unitScale?: number;
+};
+
+// Helper function to check if a value is a list of numbers of a certain length
+function isNumberArray(value: unknown, ...lengths: number[]): boolean {
+  return Array.isArray(value)
+    && lengths.includes(value.length)
+    && value.every(item => typeof item === 'number' && isFinite(item));
+}
+
+/**
+ * Checks a layout, throwing on any invalid constructs
+ */
+export function validateComposeLayout(layout: ComposeLayout, source: string = 'layout') {
+  if (!layout || !Array.isArray(layout.constructs) || layout.constructs.length == 0) {
+    throw new Error(`Invalid ${source}, it must have a non-empty "constructs" list`);
+  }
+
+  layout.constructs.forEach((construct, idx) => {
+    if (!construct || typeof construct.file !== 'string' || !construct.file) {
+      throw new Error(`Invalid construct #${idx + 1} in ${source}, it must have a "file"`);
+    }
+    if (!fileExists(construct.file)) {
+      throw new Error(`Construct file not found in ${source}: ${construct.file}`);
+    }
+    if (construct.name !== undefined && typeof construct.name !== 'string') {
+      throw new Error(`Invalid name for construct "${construct.file}" in ${source}, it must be a string`);
+    }
+    if (construct.position !== undefined && !isNumberArray(construct.position, 3)) {
+      throw new Error(`Invalid position for construct "${construct.file}" in ${source}, it must be a list of 3 numbers`);
+    }
+    if (construct.rotation !== undefined && !isNumberArray(construct.rotation, 3, 4)) {
+      throw new Error(`Invalid rotation for construct "${construct.file}" in ${source}, it must be a quaternion (4 numbers) or Euler angles in degrees (3 numbers)`);
+    }
+  });
+}
+
+/**
+ * Loads a layout file, resolving construct files relative to it
+ */
+export async function loadComposeLayoutFile(file: string): Promise<ComposeLayout> {
+  let layout: ComposeLayout;
+  try {
+    layout = JSON.parse((await fs.readFile(file)).toString());
+  } catch (err) {
+    throw new Error(`Could not load layout from "${file}": ${(err as Error).message}`);
+  }
+
+  if (layout && Array.isArray(layout.constructs)) {
+    layout = {
+      name: path.basename(file, path.extname(file)),
+      ...layout,
+      constructs: layout.constructs.map(construct => (construct && typeof construct.file === 'string' && /^\.\.?[\\/]/.test(construct.file))
+        ? { ...construct, file: path.resolve(path.dirname(file), construct.file) }
+        : construct
+      ),
+    };
+  }
+
+  validateComposeLayout(layout, `layout file "${file}"`);
+  return layout;
+}
+
+/**
+ * Gets the rotation of a construct as a quaternion
+ */
+export function getConstructRotation(rotation: vec3 | vec4 = [0, 0, 0, 1]): vec4 {
+  return (rotation.length == 3)
+    ? Array.from(fromEuler([], rotation[0], rotation[1], rotation[2])) as vec4
+    : rotation;
+}
+
+/**
+ * Copies a construct's document into ours, placing its scene contents under a node
+ */
+export function addConstructToDocument(document: Document, construct: Document, constructNode: Node) {
+  const existingScenes = new Set<Scene>(document.getRoot().listScenes());
+  const existingBuffers = document.getRoot().listBuffers();
+  document.merge(construct);
+
+  // A .glb can only have a single buffer, so everything is moved into ours
+  if (existingBuffers.length > 0) {
+    for (const accessor of document.getRoot().listAccessors()) {
+      if (!existingBuffers.includes(accessor.getBuffer()!)) {
+        accessor.setBuffer(existingBuffers[0]);
+      }
+    }
+    document.getRoot().listBuffers()
+      .filter(buffer => !existingBuffers.includes(buffer))
+      .forEach(buffer => buffer.dispose());
+  }
+
+  // Takes the nodes out of the construct's scenes
+  for (const scene of document.getRoot().listScenes().filter(scene => !existingScenes.has(scene))) {
+    for (const node of scene.listChildren()) {
+      scene.removeChild(node);
+      constructNode.addChild(node);
+    }
+    scene.dispose();
+  }
+}
+
+/**
+ * Makes all constructs share a single material per game item, removing any textures left unused
+ * Materials without a game item (such as baked atlases) are kept as-is
+ */
+export async function dedupeConstructMaterials(document: Document) {
+  const materialsPerItem: Record<string, Material> = {};
+  for (const material of document.getRoot().listMaterials()) {
+    const itemId = material.getExtras()['item_id'] as string | undefined;
+    if (!itemId) {
+      continue;
+    }
+
+    const sharedMaterial = materialsPerItem[itemId] = materialsPerItem[itemId] || material;
+    if (sharedMaterial !== material) {
+      for (const mesh of document.getRoot().listMeshes()) {
+        mesh.listPrimitives()
+          .filter(primitive => primitive.getMaterial() === material)
+          .forEach(primitive => primitive.setMaterial(sharedMaterial));
+      }
+      material.dispose();
+    }
+  }
+
+  // Textures from the removed materials are not used anymore, and other constructs might have identical ones
+  // Pruning would otherwise print its own summary, so only warnings are kept
+  document.setLogger(new Logger(Logger.Verbosity.WARN));
+  await document.transform(
+    prune({ propertyTypes: [PropertyType.TEXTURE] }),
+    dedup({ propertyTypes: [PropertyType.TEXTURE] }),
+  );
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { Document, Logger, Material, Node } from '@gltf-transform/core';
+import { prune } from '@gltf-transform/functions';
+
+import DuMeshTransformer from './DuMeshTransformer';
+import { Lod, MSFTLod } from './MsftLodExtension';
+
+export type SplitMode = 'material' | 'category';
+
+export type DocumentPart = {
+  // A file-safe name for the part, such as "painted-gray-sulfur" or "hcombs_v2"
+  name: string;
+  document: Document;
+  // The additional files (such as packed textures) used by the part's materials, from the ones registered on the transformer
+  extraFiles: string[];
+};
+
+// Helper function to turn a material name into something we can use on file names
+function getFileSafeName(name: string): string {
+  return name.toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'unnamed';
+}
+
+// Gets the part a material belongs to
+function getPartName(transformer: DuMeshTransformer, material: Material | null, splitBy: SplitMode): string {
+  if (!material) {
+    return 'other';
+  }
+
+  return (splitBy == 'category')
+    ? transformer.getGameMaterialFromGltfMaterial(material)?.category || 'other'
+    : getFileSafeName(material.getName());
+}
+
+// Lists the additional files used by a document's materials, these are registered by the textures transform
+function getUsedExtraFiles(document: Document): string[] {
+  return document.getRoot().listMaterials()
+    .flatMap(material => Object.values((material.getExtras().packed_textures || {}) as Record<string, string>));
+}
+
+// Removes nodes left without a mesh from any levels of detail, along with the levels of detail of those nodes themselves
+// Otherwise the MSFT_lod extension would keep them from being pruned
+function removeEmptiedLods(document: Document, emptiedNodes: Node[]) {
+  for (const node of emptiedNodes) {
+    node.listParents()
+      .filter((parent): parent is Lod => parent instanceof Lod)
+      .forEach(lod => lod.removeNode(node));
+    node.getExtension<Lod>(MSFTLod.EXTENSION_NAME)?.dispose();
+  }
+
+  for (const node of document.getRoot().listNodes()) {
+    const lod = node.getExtension<Lod>(MSFTLod.EXTENSION_NAME);
+    if (lod && lod.listNodes().length == 0) {
+      lod.dispose();
+    }
+  }
+}
+
+/**
+ * Splits the document into a copy for each material (or material category), each one only keeping the primitives using it
+ * Nodes are copied as-is, so every part keeps the same origin and any separated elements stay on their own nodes, nodes left empty are removed
+ */
+export async function splitDocument(transformer: DuMeshTransformer, splitBy: SplitMode): Promise<DocumentPart[]> {
+  const primitives = transformer.getDocumentRoot().listMeshes().flatMap(mesh => mesh.listPrimitives());
+  const partNames = [...new Set(primitives.map(primitive => getPartName(transformer, primitive.getMaterial(), splitBy)))];
+
+  const parts: DocumentPart[] = [];
+  for (const name of partNames) {
+    // Pruning would log the same summary for every part, so only warnings are kept
+    const document = transformer.getDocument().clone()
+      .setLogger(new Logger(Logger.Verbosity.WARN));
+
+    // Removes anything from other parts, keeping track of nodes left without a mesh
+    const emptiedNodes: Node[] = [];
+    for (const mesh of document.getRoot().listMeshes()) {
+      mesh.listPrimitives()
+        .filter(primitive => getPartName(transformer, primitive.getMaterial(), splitBy) != name)
+        .forEach(primitive => primitive.dispose());
+
+      if (mesh.listPrimitives().length == 0) {
+        emptiedNodes.push(...mesh.listParents().filter((parent): parent is Node => parent instanceof Node));
+        mesh.dispose();
+      }
+    }
+    removeEmptiedLods(document, emptiedNodes);
+
+    // Clean-up nodes left empty, along with any unused materials, textures and accessors
+    await document.transform(prune({ keepAttributes: true, keepIndices: true, keepSolidTextures: true }));
+    parts.push({ name, document, extraFiles: getUsedExtraFiles(document) });
+  }
+
+  return parts;
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+/**
+ * Formats rows of text into an aligned table, for printing into the terminal
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map(
+    (header, column) => Math.max(header.length, ...rows.map(row => (row[column] || '').length))
+  );
+
+  const formatRow = (row: string[]) => widths.map((width, column) => (row[column] || '').padEnd(width))
+    .join('  ')
+    .trimEnd();
+
+  return [
+    formatRow(headers),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
\ No newline at end of file
@@ -0,0 +1,278 @@
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { env } from 'process';
+import { existsSync as fileExists, promises as fs } from 'fs';
+
+import Package from './Package';
+import UserConfig from './UserConfig';
+
+// This is what we store for each entry
+export type TextureCacheEntry = {
+  key: string;
+  source: string;
+  sourceSize: number;
+  sourceMtimeMs: number;
+  variant: string;
+  version: string;
+  extension: string;
+  size: number;
+  lastUsed: Date;
+};
+
+// Summary of what's currently in the cache
+export type TextureCacheStats = {
+  directory: string;
+  entries: number;
+  totalSize: number;
+  staleEntries: number;
+  staleSize: number;
+  oldestUse: Date | null;
+  newestUse: Date | null;
+};
+
+// Decoded texture data, the same that gets embedded into glTF
+export type CachedTexture = { bytes: Uint8Array, extension: string };
+
+/**
+ * Persistent, content-addressed storage for decoded textures
+ * Entries are keyed by source path, size, modification time, processing variant and tool version, so they're safe to share between runs and processes
+ */
+export default class TextureCache {
+  constructor(
+    private directory: string = TextureCache.getDefaultDirectory(),
+  ) {}
+
+  /**
+   * Gets the default cache directory for the current platform, can be overriden via the DU_GLTF_CACHE_DIR environment variable or the user config
+   */
+  public static getDefaultDirectory(): string {
+    if (env.DU_GLTF_CACHE_DIR) {
+      return env.DU_GLTF_CACHE_DIR;
+    }
+
+    const configDirectory = UserConfig.tryGet('cacheDirectory');
+    if (configDirectory) {
+      return configDirectory;
+    }
+
+    switch (os.platform()) {
+      case 'win32':
+        return path.join(env.LOCALAPPDATA || path.join(os.homedir(), 'AppData', 'Local'), 'du-gltf', 'cache');
+      case 'darwin':
+        return path.join(os.homedir(), 'Library', 'Caches', 'du-gltf');
+      default:
+        return path.join(env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'du-gltf');
+    }
+  }
+
+  /**
+   * Gets the cache directory
+   */
+  public getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Gets the directory where the textures themselves are stored
+   */
+  private getTexturesDirectory(): string {
+    return path.join(this.directory, 'textures');
+  }
+
+  /**
+   * Builds the cache key for a source file
+   */
+  private async getKey(sourceFile: string, variant: string): Promise<string | null> {
+    const stats = await fs.stat(sourceFile).catch(() => null);
+    if (!stats) {
+      return null;
+    }
+
+    return crypto.createHash('sha1')
+      .update([path.resolve(sourceFile), stats.size, stats.mtimeMs, variant, Package.getVersion()].join('|'))
+      .digest('hex');
+  }
+
+  /**
+   * Gets a cached texture, if available
+   */
+  public async get(sourceFile: string, variant: string): Promise<CachedTexture | null> {
+    const key = await this.getKey(sourceFile, variant);
+    if (!key) {
+      return null;
+    }
+
+    const metadata = await this.readMetadata(key);
+    if (!metadata) {
+      return null;
+    }
+
+    const dataFile = path.join(this.getTexturesDirectory(), `${key}${metadata.extension}`);
+    const bytes = await fs.readFile(dataFile).catch(() => null);
+    if (!bytes) {
+      return null;
+    }
+
+    // Keeps track of usage for pruning
+    const now = new Date();
+    await fs.utimes(dataFile, now, now).catch(() => null);
+
+    return { bytes, extension: metadata.extension };
+  }
+
+  /**
+   * Stores a texture in the cache, writes are atomic so other processes never see partial files
+   */
+  public async set(sourceFile: string, variant: string, texture: CachedTexture) {
+    const key = await this.getKey(sourceFile, variant);
+    if (!key) {
+      return;
+    }
+
+    const stats = await fs.stat(sourceFile);
+    const metadata = {
+      source: path.resolve(sourceFile),
+      sourceSize: stats.size,
+      sourceMtimeMs: stats.mtimeMs,
+      variant: variant,
+      version: Package.getVersion(),
+      extension: texture.extension,
+    };
+
+    const directory = this.getTexturesDirectory();
+    await fs.mkdir(directory, { recursive: true });
+    await this.writeAtomic(path.join(directory, `${key}${texture.extension}`), texture.bytes);
+    await this.writeAtomic(path.join(directory, `${key}.json`), JSON.stringify(metadata, null, 2));
+  }
+
+  /**
+   * Writes into a temporary file first, then moves it into place
+   */
+  private async writeAtomic(file: string, data: Uint8Array | string) {
+    const tempFile = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.writeFile(tempFile, data);
+    await fs.rename(tempFile, file);
+  }
+
+  /**
+   * Reads the metadata for an entry
+   */
+  private async readMetadata(key: string): Promise<Omit<TextureCacheEntry, 'key' | 'size' | 'lastUsed'> | null> {
+    try {
+      return JSON.parse(
+        (await fs.readFile(path.join(this.getTexturesDirectory(), `${key}.json`))).toString()
+      );
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /**
+   * Lists all entries in the cache
+   */
+  public async list(): Promise<TextureCacheEntry[]> {
+    const directory = this.getTexturesDirectory();
+    if (!fileExists(directory)) {
+      return [];
+    }
+
+    const entries: TextureCacheEntry[] = [];
+    for (const file of await fs.readdir(directory)) {
+      if (path.extname(file) !== '.json') {
+        continue;
+      }
+
+      const key = path.basename(file, '.json');
+      const metadata = await this.readMetadata(key);
+      const stats = metadata && await fs.stat(path.join(directory, `${key}${metadata.extension}`)).catch(() => null);
+      if (metadata && stats) {
+        entries.push({ ...metadata, key, size: stats.size, lastUsed: stats.mtime });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Checks whether an entry can't ever be used again, because its source changed or it was made by another version
+   */
+  public async isStale(entry: TextureCacheEntry): Promise<boolean> {
+    if (entry.version !== Package.getVersion()) {
+      return true;
+    }
+
+    const stats = await fs.stat(entry.source).catch(() => null);
+    return !stats || stats.size !== entry.sourceSize || stats.mtimeMs !== entry.sourceMtimeMs;
+  }
+
+  /**
+   * Gets a summary of the cache contents
+   */
+  public async getStats(): Promise<TextureCacheStats> {
+    const stats: TextureCacheStats = {
+      directory: this.directory,
+      entries: 0,
+      totalSize: 0,
+      staleEntries: 0,
+      staleSize: 0,
+      oldestUse: null,
+      newestUse: null,
+    };
+
+    for (const entry of await this.list()) {
+      stats.entries++;
+      stats.totalSize += entry.size;
+
+      if (await this.isStale(entry)) {
+        stats.staleEntries++;
+        stats.staleSize += entry.size;
+      }
+
+      if (!stats.oldestUse || entry.lastUsed < stats.oldestUse) {
+        stats.oldestUse = entry.lastUsed;
+      }
+      if (!stats.newestUse || entry.lastUsed > stats.newestUse) {
+        stats.newestUse = entry.lastUsed;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Removes a single entry
+   */
+  private async remove(entry: TextureCacheEntry) {
+    const directory = this.getTexturesDirectory();
+    await fs.rm(path.join(directory, `${entry.key}${entry.extension}`), { force: true });
+    await fs.rm(path.join(directory, `${entry.key}.json`), { force: true });
+  }
+
+  /**
+   * Removes stale entries, plus any entries not used in a certain amount of days
+   * @returns The removed entries
+   */
+  public async prune({ maxAgeDays = undefined }: { maxAgeDays?: number } = {}): Promise<TextureCacheEntry[]> {
+    const minLastUsed = (maxAgeDays !== undefined)
+      ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000
+      : null;
+
+    const removed: TextureCacheEntry[] = [];
+    for (const entry of await this.list()) {
+      if (await this.isStale(entry) || (minLastUsed !== null && entry.lastUsed.getTime() < minLastUsed)) {
+        await this.remove(entry);
+        removed.push(entry);
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Removes everything from the cache
+   */
+  public async clear() {
+    await fs.rm(this.getTexturesDirectory(), { recursive: true, force: true });
+  }
+}
\ No newline at end of file
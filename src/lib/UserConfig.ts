@@ -0,0 +1,101 @@
+import path from 'path';
+import { existsSync as fileExists, readFileSync, promises as fs } from 'fs';
+
+import Package from './Package';
+
+export type UserConfigData = {
+  gameDirectory?: string;
+  cacheDirectory?: string;
+};
+
+// Maps the keys used on the command-line to the ones in the config file
+export const UserConfigKeys: Record<string, keyof UserConfigData> = {
+  'game-dir': 'gameDirectory',
+  'cache-dir': 'cacheDirectory',
+};
+
+/**
+ * Persistent user settings, stored at ~/.config/du-gltf/config.json (or %APPDATA%\du-gltf\config.json on Windows)
+ */
+export default class UserConfig {
+  // Whether we already warned about an unreadable config file, so batches don't repeat it for every file
+  private static hasWarnedInvalid: boolean = false;
+
+  /**
+   * Gets the config file location
+   */
+  public static getFile(): string {
+    return path.join(Package.getUserConfigDirectory(), 'config.json');
+  }
+
+  /**
+   * Loads the config file, returning an empty config if there's none
+   */
+  public static load(): UserConfigData {
+    const file = this.getFile();
+    if (!fileExists(file)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(readFileSync(file).toString());
+    } catch (err) {
+      throw new Error(`Invalid config file at "${file}": ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Loads the config file, returning null instead of throwing when it can't be read
+   */
+  public static tryLoad(): UserConfigData | null {
+    try {
+      return this.load();
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /**
+   * Saves the config file
+   */
+  public static async save(config: UserConfigData) {
+    await fs.mkdir(path.dirname(this.getFile()), { recursive: true });
+    await fs.writeFile(this.getFile(), JSON.stringify(config, null, 2));
+  }
+
+  /**
+   * Gets a single config value
+   */
+  public static get<K extends keyof UserConfigData>(key: K): UserConfigData[K] {
+    return this.load()[key];
+  }
+
+  /**
+   * Gets a single config value, skipping an unreadable config file with a warning (printed once) instead of throwing
+   */
+  public static tryGet<K extends keyof UserConfigData>(key: K): UserConfigData[K] {
+    try {
+      return this.load()[key];
+    } catch (err) {
+      if (!this.hasWarnedInvalid) {
+        console.warn('[WARNING]', `${(err as Error).message}, ignoring it until it's fixed or replaced with "du-gltf config set"`);
+        this.hasWarnedInvalid = true;
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Sets a single config value, or removes it when undefined
+   */
+  public static async set<K extends keyof UserConfigData>(key: K, value: UserConfigData[K]) {
+    // A broken config file is replaced, otherwise there'd be no way of fixing it via command-line
+    const config = this.tryLoad() || {};
+    if (value === undefined) {
+      delete config[key];
+    } else {
+      config[key] = value;
+    }
+    await this.save(config);
+  }
+}
\ No newline at end of file
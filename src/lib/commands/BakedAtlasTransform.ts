@@ -0,0 +1,385 @@
+import { Material, Primitive, PropertyType, Texture, vec2, vec3, vec4 } from '@gltf-transform/core';
+import { EmissiveStrength, KHRMaterialsEmissiveStrength } from '@gltf-transform/extensions';
+import { joinPrimitives } from '@gltf-transform/functions';
+
+import {
+  ProcessingQueueCommandParameters as CommandParams,
+  EventType as EventType
+} from '../types';
+import RgbaBuffer from '../RgbaBuffer';
+import { TriangleVertices, disposeUnusedAccessors, getPrimitiveTriangles, getTriangleNormal } from '../MeshGeometry';
+import { unwrapMeshes } from '../MeshUnwrapper';
+
+export type BakedAtlasOptions = {
+  // Size of the atlas textures, in pixels
+  resolution?: number;
+  // Empty space around each chart, in pixels, filled with the chart's edges so they don't bleed when filtering
+  padding?: number;
+  // Samples per axis taken for each pixel, higher values reduce aliasing from the tiled textures
+  samples?: number;
+};
+
+// Temporary attribute holding the atlas UVs, until we're done sampling the original ones
+const ATLAS_UV_ATTRIBUTE = '_ATLAS_UV';
+
+// The maps we bake, in the same layout as the textures created by TexturesTransform
+const BAKED_MAPS = ['color', 'orm', 'normal', 'emissive'] as const;
+type BakedMap = typeof BAKED_MAPS[number];
+
+// Everything needed to sample a material, with textures already decoded
+type MaterialSampler = {
+  color: RgbaBuffer | null;
+  colorFactor: vec4;
+  occlusion: RgbaBuffer | null;
+  metallicRoughness: RgbaBuffer | null;
+  metallicFactor: number;
+  roughnessFactor: number;
+  normal: RgbaBuffer | null;
+  normalScale: number;
+  emissive: RgbaBuffer | null;
+  emissiveFactor: vec3;
+};
+
+// The directions of U, V and the normal on a triangle, used to move normal map data between different UV layouts
+type TangentFrame = [vec3, vec3, vec3];
+
+function dot(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalize(vector: number[]): vec3 {
+  const length = Math.hypot(vector[0], vector[1], vector[2]) || 1;
+  return [vector[0] / length, vector[1] / length, vector[2] / length];
+}
+
+// Gets the tangent frame for a triangle, returns null when its UVs have no area
+function getTangentFrame(positions: TriangleVertices, uvs: vec2[], normal: vec3): TangentFrame | null {
+  const edge1 = [0, 1, 2].map(i => positions[1][i] - positions[0][i]);
+  const edge2 = [0, 1, 2].map(i => positions[2][i] - positions[0][i]);
+  const [du1, dv1] = [uvs[1][0] - uvs[0][0], uvs[1][1] - uvs[0][1]];
+  const [du2, dv2] = [uvs[2][0] - uvs[0][0], uvs[2][1] - uvs[0][1]];
+
+  const determinant = du1 * dv2 - du2 * dv1;
+  if (Math.abs(determinant) < 1e-12) {
+    return null;
+  }
+
+  // Makes both directions perpendicular to the normal (and each other), keeping their handedness
+  const tangent = [0, 1, 2].map(i => (edge1[i] * dv2 - edge2[i] * dv1) / determinant);
+  const bitangent = [0, 1, 2].map(i => (edge2[i] * du1 - edge1[i] * du2) / determinant);
+  const finalTangent = normalize(tangent.map((value, i) => value - normal[i] * dot(normal, tangent)));
+  const finalBitangent = normalize(bitangent.map((value, i) => value - normal[i] * dot(normal, bitangent) - finalTangent[i] * dot(finalTangent, bitangent)));
+
+  return [finalTangent, finalBitangent, normal];
+}
+
+// Signed area of the parallelogram between three points, used for barycentric coordinates
+function edgeFunction(a: number[], b: number[], c: number[]): number {
+  return (c[0] - a[0]) * (b[1] - a[1]) - (c[1] - a[1]) * (b[0] - a[0]);
+}
+
+// Decodes the textures used by a material, along with its factors
+async function getMaterialSampler(material: Material | null, emissiveScale: number, decodeTexture: (texture: Texture | null) => Promise<RgbaBuffer | null>): Promise<MaterialSampler> {
+  return {
+    color: await decodeTexture(material?.getBaseColorTexture() || null),
+    colorFactor: material?.getBaseColorFactor() || [1, 1, 1, 1],
+    occlusion: await decodeTexture(material?.getOcclusionTexture() || null),
+    metallicRoughness: await decodeTexture(material?.getMetallicRoughnessTexture() || null),
+    metallicFactor: material ? material.getMetallicFactor() : 1,
+    roughnessFactor: material ? material.getRoughnessFactor() : 1,
+    normal: await decodeTexture(material?.getNormalTexture() || null),
+    normalScale: material ? material.getNormalScale() : 1,
+    emissive: await decodeTexture(material?.getEmissiveTexture() || null),
+    emissiveFactor: (material?.getEmissiveFactor() || [0, 0, 0]).map(value => value * emissiveScale) as vec3,
+  };
+}
+
+// Gets the HDR strength of an emissive material, 1.0 when not set
+function getEmissiveStrength(material: Material | null): number {
+  return material?.getExtension<EmissiveStrength>('KHR_materials_emissive_strength')?.getEmissiveStrength() || 1;
+}
+
+export default async function BakedAtlasTransform({ document, transformer }: CommandParams, { resolution = 2048, padding = 4, samples = 2 }: BakedAtlasOptions = {}) {
+  const meshes = document.getRoot().listMeshes();
+  const primitives = meshes.flatMap(mesh => mesh.listPrimitives());
+  if (primitives.length == 0) {
+    transformer.notify(EventType.WARNING, `There is no geometry to bake. Skipping...`);
+    return;
+  }
+
+  // Without the original UVs, only the material factors can be baked
+  const primitivesWithoutUvs = primitives.filter(primitive => !primitive.getAttribute('TEXCOORD_0'));
+  if (primitivesWithoutUvs.length > 0) {
+    transformer.notify(EventType.WARNING, `${primitivesWithoutUvs.length} primitive(s) have no UV map, only their base colors will be baked. Make sure UV maps are generated before baking.`);
+  }
+
+  // Everything shares the same atlas
+  transformer.notify(EventType.DEBUG, `Unwrapping ${meshes.length} mesh(es) into a ${resolution}x${resolution} atlas...`);
+  const unwrap = unwrapMeshes(document, meshes, ATLAS_UV_ATTRIBUTE, { resolution, padding });
+  if (!unwrap) {
+    transformer.notify(EventType.WARNING, `The model has too many flat areas to fit into a ${resolution}x${resolution} atlas, try a higher resolution or merging faces. Skipping...`);
+    return;
+  }
+
+  const { charts, texelsPerMeter } = unwrap;
+  transformer.notify(EventType.DEBUG, `Packed ${charts} charts at ${texelsPerMeter.toFixed(2)} texels per meter`);
+  if (unwrap.padding < padding) {
+    transformer.notify(EventType.WARNING, `The atlas has too many charts for ${padding} pixels of padding, using ${unwrap.padding} instead`);
+  }
+
+  // Materials can have different HDR strengths, so we keep the highest and scale the others down into it
+  const materials = new Set(primitives.map(primitive => primitive.getMaterial()));
+  const maxEmissiveStrength = Math.max(...[...materials].map(material => getEmissiveStrength(material)));
+
+  // Decodes every texture only once
+  const decodedTextures = new Map<Texture, RgbaBuffer>();
+  const decodeTexture = async (texture: Texture | null) => {
+    if (!texture || !texture.getImage()) {
+      return null;
+    }
+    if (!decodedTextures.has(texture)) {
+      decodedTextures.set(texture, await RgbaBuffer.fromFileBuffer(Buffer.from(texture.getImage()!)));
+    }
+    return decodedTextures.get(texture)!;
+  };
+  const samplers = new Map<Material | null, MaterialSampler>();
+  for (const material of materials) {
+    samplers.set(material, await getMaterialSampler(material, getEmissiveStrength(material) / maxEmissiveStrength, decodeTexture));
+  }
+
+  // Accumulates all samples taken for each pixel, colors are in 0-255 and normals in -1 to 1
+  const pixelCount = resolution * resolution;
+  const sampleCounts = new Float32Array(pixelCount);
+  const accumulators: Record<BakedMap, Float32Array> = {
+    color: new Float32Array(pixelCount * 4),
+    orm: new Float32Array(pixelCount * 4),
+    normal: new Float32Array(pixelCount * 4),
+    emissive: new Float32Array(pixelCount * 4),
+  };
+
+  for (const primitive of primitives) {
+    transformer.notify(EventType.DEBUG, `Baking primitive "${primitive.getName()}" with material "${primitive.getMaterial()?.getName()}"...`);
+
+    const sampler = samplers.get(primitive.getMaterial())!;
+    const primitiveVertexPosition = primitive.getAttribute('POSITION')!;
+    const primitiveVertexNormal = primitive.getAttribute('NORMAL');
+    const primitiveVertexUV = primitive.getAttribute('TEXCOORD_0');
+    const primitiveVertexAtlasUV = primitive.getAttribute(ATLAS_UV_ATTRIBUTE)!;
+
+    for (const vertexIds of getPrimitiveTriangles(primitive)) {
+      const positions = vertexIds.map(id => primitiveVertexPosition.getElement(id, [])) as TriangleVertices;
+      const normal = normalize(getTriangleNormal(
+        positions,
+        primitiveVertexNormal ? vertexIds.map(id => primitiveVertexNormal.getElement(id, [])) as TriangleVertices : null,
+      ));
+      const uvs = vertexIds.map(id => primitiveVertexUV ? primitiveVertexUV.getElement(id, []) : [0, 0]) as vec2[];
+      const atlasUvs = vertexIds.map(id => primitiveVertexAtlasUV.getElement(id, []).map(value => value * resolution));
+
+      // The normal map data needs to be rotated from the original UV layout into the atlas one
+      const sourceFrame = primitiveVertexUV ? getTangentFrame(positions, uvs, normal) : null;
+      const atlasFrame = getTangentFrame(positions, atlasUvs as vec2[], normal);
+
+      const area = edgeFunction(atlasUvs[0], atlasUvs[1], atlasUvs[2]);
+      if (Math.abs(area) < 1e-12) {
+        continue;
+      }
+
+      // Goes through every pixel covered by the triangle, taking a few samples inside each of them
+      const minX = Math.max(0, Math.floor(Math.min(...atlasUvs.map(uv => uv[0]))));
+      const maxX = Math.min(resolution - 1, Math.ceil(Math.max(...atlasUvs.map(uv => uv[0]))));
+      const minY = Math.max(0, Math.floor(Math.min(...atlasUvs.map(uv => uv[1]))));
+      const maxY = Math.min(resolution - 1, Math.ceil(Math.max(...atlasUvs.map(uv => uv[1]))));
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          const pixel = y * resolution + x;
+          for (let sampleIdx = 0; sampleIdx < samples * samples; sampleIdx++) {
+            const point = [x + ((sampleIdx % samples) + 0.5) / samples, y + (Math.floor(sampleIdx / samples) + 0.5) / samples];
+            const weights = [
+              edgeFunction(atlasUvs[1], atlasUvs[2], point) / area,
+              edgeFunction(atlasUvs[2], atlasUvs[0], point) / area,
+              edgeFunction(atlasUvs[0], atlasUvs[1], point) / area,
+            ];
+            if (weights.some(weight => weight < -1e-6)) {
+              continue;
+            }
+
+            // Samples the original textures
+            const u = weights[0] * uvs[0][0] + weights[1] * uvs[1][0] + weights[2] * uvs[2][0];
+            const v = weights[0] * uvs[0][1] + weights[1] * uvs[1][1] + weights[2] * uvs[2][1];
+            const color = sampler.color ? sampler.color.sample(u, v) : [255, 255, 255, 255];
+            const occlusion = sampler.occlusion ? sampler.occlusion.sample(u, v)[0] : 255;
+            const metallicRoughness = sampler.metallicRoughness ? sampler.metallicRoughness.sample(u, v) : [255, 255, 255, 255];
+            const emissive = sampler.emissive ? sampler.emissive.sample(u, v) : [255, 255, 255, 255];
+
+            // Moves the normal from the original tangent frame into world space, then into the atlas tangent frame
+            let bakedNormal: number[] = [0, 0, 1];
+            if (sampler.normal && sourceFrame && atlasFrame) {
+              const tangentNormal = sampler.normal.sample(u, v).slice(0, 3).map(value => value / 127.5 - 1);
+              const worldNormal = [0, 1, 2].map(i => tangentNormal[0] * sampler.normalScale * sourceFrame[0][i] + tangentNormal[1] * sampler.normalScale * sourceFrame[1][i] + tangentNormal[2] * sourceFrame[2][i]);
+              bakedNormal = atlasFrame.map(axis => dot(worldNormal, axis));
+            }
+
+            // Adds everything to our accumulators
+            const offset = pixel * 4;
+            for (let channel = 0; channel < 4; channel++) {
+              accumulators.color[offset + channel] += color[channel] * sampler.colorFactor[channel];
+              accumulators.emissive[offset + channel] += channel < 3 ? emissive[channel] * sampler.emissiveFactor[channel] : 255;
+            }
+            accumulators.orm[offset + 0] += occlusion;
+            accumulators.orm[offset + 1] += metallicRoughness[1] * sampler.roughnessFactor;
+            accumulators.orm[offset + 2] += metallicRoughness[2] * sampler.metallicFactor;
+            accumulators.orm[offset + 3] += 255;
+            accumulators.normal[offset + 0] += bakedNormal[0];
+            accumulators.normal[offset + 1] += bakedNormal[1];
+            accumulators.normal[offset + 2] += bakedNormal[2];
+            sampleCounts[pixel]++;
+          }
+        }
+      }
+    }
+  }
+
+  // Averages everything and converts into images
+  const bakedImages: Record<BakedMap, RgbaBuffer> = {} as Record<BakedMap, RgbaBuffer>;
+  for (const map of BAKED_MAPS) {
+    const buffer = Buffer.alloc(pixelCount * 4);
+    for (let pixel = 0; pixel < pixelCount; pixel++) {
+      if (sampleCounts[pixel] == 0) {
+        continue;
+      }
+
+      const offset = pixel * 4;
+      if (map == 'normal') {
+        const bakedNormal = normalize([0, 1, 2].map(channel => accumulators.normal[offset + channel]));
+        for (let channel = 0; channel < 3; channel++) {
+          buffer[offset + channel] = Math.round((bakedNormal[channel] + 1) * 127.5);
+        }
+        buffer[offset + 3] = 255;
+      } else {
+        for (let channel = 0; channel < 4; channel++) {
+          buffer[offset + channel] = Math.min(255, Math.max(0, Math.round(accumulators[map][offset + channel] / sampleCounts[pixel])));
+        }
+      }
+    }
+    bakedImages[map] = new RgbaBuffer(resolution, resolution, buffer);
+  }
+
+  // Grows the charts into their padding, so texture filtering doesn't pick up empty pixels
+  let filled = Uint8Array.from(sampleCounts, count => count > 0 ? 1 : 0);
+  for (let pass = 0; pass < unwrap.padding; pass++) {
+    const nextFilled = Uint8Array.from(filled);
+    for (let pixel = 0; pixel < pixelCount; pixel++) {
+      if (filled[pixel]) {
+        continue;
+      }
+
+      const x = pixel % resolution, y = Math.floor(pixel / resolution);
+      const neighbors = [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]]
+        .filter(([nx, ny]) => nx >= 0 && ny >= 0 && nx < resolution && ny < resolution && filled[ny * resolution + nx])
+        .map(([nx, ny]) => ny * resolution + nx);
+      if (neighbors.length == 0) {
+        continue;
+      }
+
+      for (const map of BAKED_MAPS) {
+        bakedImages[map].setPixelByIndex(pixel, [0, 1, 2, 3].map(
+          channel => Math.round(neighbors.reduce((sum, neighbor) => sum + bakedImages[map].getPixelByIndex(neighbor)[channel], 0) / neighbors.length)
+        ) as vec4);
+      }
+      nextFilled[pixel] = 1;
+    }
+    filled = nextFilled;
+  }
+
+  // Creates our new material, with the baked textures
+  const hasEmissive = [...samplers.values()].some(sampler => sampler.emissiveFactor.some(value => value > 0));
+  const bakedTextures: Partial<Record<BakedMap, Texture>> = {};
+  for (const map of BAKED_MAPS) {
+    if (map == 'emissive' && !hasEmissive) {
+      continue;
+    }
+
+    bakedTextures[map] = document.createTexture(`Baked_${map}`)
+      .setName(`Baked_${map}`)
+      .setImage(await bakedImages[map].toConvertedBuffer('image/png'))
+      .setMimeType('image/png')
+      .setURI(`textures/Baked_${map}.png`);
+  }
+
+  const bakedMaterial = document.createMaterial('Baked')
+    .setBaseColorTexture(bakedTextures.color!)
+    .setMetallicRoughnessTexture(bakedTextures.orm!)
+    .setOcclusionTexture(bakedTextures.orm!)
+    .setNormalTexture(bakedTextures.normal!)
+    .setMetallicFactor(1.000)
+    .setRoughnessFactor(1.000)
+    .setExtras({
+      // Keeps track of which game materials were baked in
+      baked_item_ids: [...materials]
+        .map(material => material?.getExtras().item_id)
+        .filter(itemId => !!itemId),
+    });
+  if (bakedTextures.emissive) {
+    bakedMaterial
+      .setEmissiveTexture(bakedTextures.emissive)
+      .setEmissiveFactor([1, 1, 1]);
+
+    if (maxEmissiveStrength > 1) {
+      bakedMaterial.setExtension(
+        'KHR_materials_emissive_strength',
+        document.createExtension(KHRMaterialsEmissiveStrength)
+          .createEmissiveStrength()
+          .setEmissiveStrength(maxEmissiveStrength)
+      );
+    }
+  }
+
+  // Switches everything into the baked material and atlas UVs
+  for (const primitive of primitives) {
+    const primitiveVertexUV = primitive.getAttribute('TEXCOORD_0');
+    primitive
+      .setMaterial(bakedMaterial)
+      .setAttribute('TEXCOORD_0', primitive.getAttribute(ATLAS_UV_ATTRIBUTE))
+      .setAttribute(ATLAS_UV_ATTRIBUTE, null);
+
+    if (primitiveVertexUV && primitiveVertexUV.listParents().every(parent => parent.propertyType == PropertyType.ROOT)) {
+      primitiveVertexUV.dispose();
+    }
+  }
+
+  // Joins the primitives of each mesh, so each one is a single draw call
+  for (const mesh of meshes) {
+    const primitivesByAttributes = new Map<string, Primitive[]>();
+    for (const primitive of mesh.listPrimitives()) {
+      const key = `${primitive.getMode()}:${!!primitive.getIndices()}:${primitive.listSemantics().sort().join(',')}`;
+      primitivesByAttributes.set(key, [...(primitivesByAttributes.get(key) || []), primitive]);
+    }
+
+    for (const group of primitivesByAttributes.values()) {
+      if (group.length < 2) {
+        continue;
+      }
+
+      // The joined primitive has its own copies of the geometry, so the old accessors would only be dead weight in the output
+      mesh.addPrimitive(joinPrimitives(group));
+      const groupAccessors = group.flatMap(primitive => [primitive.getIndices(), ...primitive.listAttributes()]);
+      for (const primitive of group) {
+        primitive.dispose();
+      }
+      disposeUnusedAccessors(groupAccessors);
+    }
+  }
+
+  // Cleans up the old materials and any textures only they were using
+  for (const material of materials) {
+    const textures = material
+      ? [material.getBaseColorTexture(), material.getMetallicRoughnessTexture(), material.getOcclusionTexture(), material.getNormalTexture(), material.getEmissiveTexture()]
+      : [];
+    material?.dispose();
+    for (const texture of new Set(textures)) {
+      if (texture && texture.listParents().every(parent => parent.propertyType == PropertyType.ROOT)) {
+        texture.dispose();
+      }
+    }
+  }
+}
\ No newline at end of file
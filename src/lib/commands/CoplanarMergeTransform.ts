@@ -0,0 +1,488 @@
+import { Accessor, Document, GLTF, Primitive, vec2, vec3 } from '@gltf-transform/core';
+
+import {
+  ProcessingQueueCommandParameters as CommandParams,
+  EventType as EventType
+} from '../types';
+import { TriangleVertices, disposeUnusedAccessors, getPrimitiveTriangles, getTriangleNormal } from '../MeshGeometry';
+
+export type CoplanarMergeOptions = {
+  // Size of the grid faces are merged on, in meters, this should match the voxel grid
+  gridSize?: number;
+};
+
+// A triangle that lies flat on one of the axis-aligned planes
+type PlanarTriangle = {
+  triangleIdx: number;
+  // Vertex positions on the plane
+  points: vec2[];
+};
+
+// The UVs of a plane are a linear function of the position on it, as long as they're continuous
+type UvMapping = [number, number, number, number, number, number];
+
+// A rectangle replacing merged faces, with its corners in the same winding as the faces it replaces
+type MergedRectangle = {
+  corners: vec3[];
+  normal: vec3;
+  // Which axes of the positions are used on the plane, to get UVs from them
+  axes: [number, number];
+  uvMapping: UvMapping | null;
+};
+
+// What merging the faces of a primitive changes, worked out before rebuilding anything
+type MergePlan = {
+  primitive: Primitive;
+  removedTriangles: Set<number>;
+  rectangles: MergedRectangle[];
+};
+
+// The vertex positions on each axis-aligned line, so we can find the ones lying along an edge
+type PointIndex = Map<string, number[]>;
+
+// Attributes we know how to rebuild for merged faces, primitives with any others are left alone
+const SUPPORTED_SEMANTICS = ['POSITION', 'NORMAL', 'TEXCOORD_0'];
+
+// Tolerance for floating point comparisons, in meters
+const EPSILON = 1e-5;
+
+// Helper function to get the area of a 2D polygon
+function getPolygonArea(points: vec2[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i], [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(area) / 2;
+}
+
+// Clips a polygon against a single axis-aligned edge (Sutherland-Hodgman)
+function clipPolygon(points: vec2[], axis: number, limit: number, keepAbove: boolean): vec2[] {
+  const isInside = (point: vec2) => keepAbove ? point[axis] >= limit : point[axis] <= limit;
+  const result: vec2[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i], next = points[(i + 1) % points.length];
+    if (isInside(current)) {
+      result.push(current);
+    }
+    if (isInside(current) != isInside(next)) {
+      const t = (limit - current[axis]) / (next[axis] - current[axis]);
+      result.push([current[0] + (next[0] - current[0]) * t, current[1] + (next[1] - current[1]) * t]);
+    }
+  }
+  return result;
+}
+
+// Gets how much of a grid cell a triangle covers
+function getCoveredArea(points: vec2[], minX: number, minY: number, size: number): number {
+  let polygon = points;
+  polygon = clipPolygon(polygon, 0, minX, true);
+  polygon = clipPolygon(polygon, 0, minX + size, false);
+  polygon = clipPolygon(polygon, 1, minY, true);
+  polygon = clipPolygon(polygon, 1, minY + size, false);
+  return polygon.length >= 3 ? getPolygonArea(polygon) : 0;
+}
+
+// Solves the linear mapping between plane positions and UVs for a triangle, null when it has no area
+function getUvMapping(points: vec2[], uvs: vec2[]): UvMapping | null {
+  const [ax, ay] = [points[1][0] - points[0][0], points[1][1] - points[0][1]];
+  const [bx, by] = [points[2][0] - points[0][0], points[2][1] - points[0][1]];
+  const determinant = ax * by - bx * ay;
+  if (Math.abs(determinant) < EPSILON * EPSILON) {
+    return null;
+  }
+
+  // UV = [m0 m1; m2 m3] * position + [m4, m5]
+  const mapping = [0, 1].flatMap((channel) => {
+    const du = uvs[1][channel] - uvs[0][channel];
+    const dv = uvs[2][channel] - uvs[0][channel];
+    return [(du * by - dv * ay) / determinant, (dv * ax - du * bx) / determinant];
+  });
+  return [
+    ...mapping,
+    uvs[0][0] - mapping[0] * points[0][0] - mapping[1] * points[0][1],
+    uvs[0][1] - mapping[2] * points[0][0] - mapping[3] * points[0][1],
+  ] as UvMapping;
+}
+
+// Helper function to get a hash of the vertex position
+function getHashFromPosition(position: number[]): string {
+  return position.map(component => component.toFixed(4))
+    .join('|');
+}
+
+// Helper function to get a hash for the axis-aligned line going through a position
+function getHashFromLine(position: number[], axis: number): string {
+  return `${axis}:${[0, 1, 2].filter(idx => idx != axis).map(idx => position[idx].toFixed(4)).join('|')}`;
+}
+
+// Adds a position to the lines along all three axes
+function addPointToIndex(index: PointIndex, position: number[]) {
+  for (let axis = 0; axis < 3; axis++) {
+    const lineHash = getHashFromLine(position, axis);
+    if (!index.has(lineHash)) {
+      index.set(lineHash, []);
+    }
+    index.get(lineHash)!.push(position[axis]);
+  }
+}
+
+// Finds the positions lying inside an axis-aligned edge, sorted from its start to its end
+function getPointsAlongEdge(index: PointIndex, start: number[], end: number[]): vec3[] {
+  const axis = [0, 1, 2].find(idx => Math.abs(end[idx] - start[idx]) > EPSILON);
+  if (axis === undefined || [0, 1, 2].some(idx => idx != axis && Math.abs(end[idx] - start[idx]) > EPSILON)) {
+    return [];
+  }
+
+  const [min, max] = [Math.min(start[axis], end[axis]), Math.max(start[axis], end[axis])];
+  return (index.get(getHashFromLine(start, axis)) || [])
+    .filter(value => value > min + EPSILON && value < max - EPSILON)
+    .sort((a, b) => Math.abs(a - start[axis]) - Math.abs(b - start[axis]))
+    .filter((value, idx, values) => idx == 0 || Math.abs(value - values[idx - 1]) > EPSILON)
+    .map((value) => {
+      const position = [...start] as vec3;
+      position[axis] = value;
+      return position;
+    });
+}
+
+// Splits a convex polygon into triangles, where some of its points might only be splitting an edge (so they aren't corners)
+// Corners next to those points are clipped first, so we never end up with only points along a line, which would make triangles with no area
+function triangulateConvexPolygon(isOnEdge: boolean[]): [number, number, number][] {
+  const remaining = isOnEdge.map((value, idx) => idx);
+  const isFlat = [...isOnEdge];
+  const triangles: [number, number, number][] = [];
+  while (remaining.length > 3) {
+    const count = remaining.length;
+    const corners = remaining.map((value, idx) => idx).filter(idx => !isFlat[remaining[idx]]);
+    const cornerIdx = corners.find(idx => isFlat[remaining[(idx + count - 1) % count]] || isFlat[remaining[(idx + 1) % count]]) ?? corners[0];
+
+    // Once clipped, the neighbors become corners of the remaining polygon
+    const [previous, current, next] = [remaining[(cornerIdx + count - 1) % count], remaining[cornerIdx], remaining[(cornerIdx + 1) % count]];
+    triangles.push([previous, current, next]);
+    isFlat[previous] = isFlat[next] = false;
+    remaining.splice(cornerIdx, 1);
+  }
+  triangles.push(remaining as [number, number, number]);
+
+  return triangles;
+}
+
+// Finds rectangles covering all cells in a grid, picking the largest ones first (greedy meshing)
+function getGreedyRectangles(cells: Set<string>): [number, number, number, number][] {
+  const sortedCells = [...cells]
+    .map(cell => cell.split(',').map(Number))
+    .sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+
+  const visited = new Set<string>();
+  const isAvailable = (x: number, y: number) => cells.has(`${x},${y}`) && !visited.has(`${x},${y}`);
+  const rectangles: [number, number, number, number][] = [];
+  for (const [x, y] of sortedCells) {
+    if (visited.has(`${x},${y}`)) {
+      continue;
+    }
+
+    // Grows horizontally, then vertically for as long as a whole row is available
+    let width = 1, height = 1;
+    while (isAvailable(x + width, y)) {
+      width++;
+    }
+    while ([...Array(width).keys()].every(dx => isAvailable(x + dx, y + height))) {
+      height++;
+    }
+
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        visited.add(`${x + dx},${y + dy}`);
+      }
+    }
+    rectangles.push([x, y, width, height]);
+  }
+
+  return rectangles;
+}
+
+// Works out which flat faces of a primitive can be merged, and the rectangles replacing them
+function getMergePlan(primitive: Primitive, gridSize: number): MergePlan {
+  const primitiveVertexPosition = primitive.getAttribute('POSITION')!;
+  const primitiveVertexNormal = primitive.getAttribute('NORMAL');
+  const primitiveVertexUV = primitive.getAttribute('TEXCOORD_0');
+  const triangles = getPrimitiveTriangles(primitive);
+
+  // Groups all triangles lying on the same axis-aligned plane, with continuous UVs
+  const planes = new Map<string, { axis: number, sign: number, depth: number, uvMapping: UvMapping | null, triangles: PlanarTriangle[] }>();
+  triangles.forEach((vertexIds, triangleIdx) => {
+    const positions = vertexIds.map(id => primitiveVertexPosition.getElement(id, [])) as TriangleVertices;
+    const normal = getTriangleNormal(positions, primitiveVertexNormal ? vertexIds.map(id => primitiveVertexNormal.getElement(id, [])) as TriangleVertices : null);
+    const length = Math.hypot(...normal);
+    const axis = normal.map(Math.abs).indexOf(Math.max(...normal.map(Math.abs)));
+    if (length == 0 || Math.abs(normal[axis]) / length < 1 - EPSILON) {
+      return;
+    }
+
+    // Flat faces only, all vertices need to be at the same depth
+    const depth = positions[0][axis];
+    if (positions.some(position => Math.abs(position[axis] - depth) > EPSILON)) {
+      return;
+    }
+
+    const [axisX, axisY] = [0, 1, 2].filter(idx => idx != axis);
+    const points = positions.map(position => [position[axisX], position[axisY]] as vec2);
+    const uvMapping = primitiveVertexUV
+      ? getUvMapping(points, vertexIds.map(id => primitiveVertexUV.getElement(id, [])) as vec2[])
+      : null;
+    if (primitiveVertexUV && !uvMapping) {
+      return;
+    }
+
+    const sign = Math.sign(normal[axis]);
+    const key = `${axis}:${sign}:${depth.toFixed(4)}:${uvMapping ? uvMapping.map(value => value.toFixed(4)).join(',') : ''}`;
+    if (!planes.has(key)) {
+      planes.set(key, { axis, sign, depth, uvMapping, triangles: [] });
+    }
+    planes.get(key)!.triangles.push({ triangleIdx, points });
+  });
+
+  const removedTriangles = new Set<number>();
+  const rectangles: MergedRectangle[] = [];
+  for (const plane of planes.values()) {
+    if (plane.triangles.length < 3) {
+      continue;
+    }
+
+    // Aligns the grid with the voxels on this plane
+    const origin = plane.triangles[0].points[0].map(value => value - Math.floor(value / gridSize) * gridSize);
+    const cellArea = gridSize * gridSize;
+
+    // Finds out which cells each triangle touches, and how much of each cell is covered
+    const coveredAreas = new Map<string, number>();
+    const trianglesPerCell = new Map<string, number[]>();
+    const cellsPerTriangle = plane.triangles.map((triangle, idx) => {
+      const cells: string[] = [];
+      const [minX, maxX, minY, maxY] = [0, 1].flatMap(i => [
+        Math.floor((Math.min(...triangle.points.map(point => point[i])) - origin[i]) / gridSize + EPSILON),
+        Math.ceil((Math.max(...triangle.points.map(point => point[i])) - origin[i]) / gridSize - EPSILON),
+      ]);
+      for (let y = minY; y < maxY; y++) {
+        for (let x = minX; x < maxX; x++) {
+          const area = getCoveredArea(triangle.points, origin[0] + x * gridSize, origin[1] + y * gridSize, gridSize);
+          if (area > EPSILON * cellArea) {
+            const cell = `${x},${y}`;
+            coveredAreas.set(cell, (coveredAreas.get(cell) || 0) + area);
+            if (!trianglesPerCell.has(cell)) {
+              trianglesPerCell.set(cell, []);
+            }
+            trianglesPerCell.get(cell)!.push(idx);
+            cells.push(cell);
+          }
+        }
+      }
+      return cells;
+    });
+
+    // A cell can be merged when it's fully covered, and every triangle touching it can be removed, which in turn needs all its cells to be mergeable
+    const mergeableCells = new Set([...coveredAreas.keys()].filter(cell => coveredAreas.get(cell)! >= cellArea * (1 - 1e-4)));
+    let isStable = false;
+    while (!isStable) {
+      isStable = true;
+      for (const cell of [...mergeableCells]) {
+        if (!trianglesPerCell.get(cell)!.every(idx => cellsPerTriangle[idx].every(other => mergeableCells.has(other)))) {
+          mergeableCells.delete(cell);
+          isStable = false;
+        }
+      }
+    }
+
+    // Only worth it when we actually end up with fewer triangles
+    const replacedTriangles = plane.triangles.filter((triangle, idx) => cellsPerTriangle[idx].length > 0 && cellsPerTriangle[idx].every(cell => mergeableCells.has(cell)));
+    const planeRectangles = getGreedyRectangles(mergeableCells);
+    if (planeRectangles.length * 2 >= replacedTriangles.length) {
+      continue;
+    }
+
+    // Each rectangle keeps the same facing as the originals
+    const normal = [0, 0, 0] as vec3;
+    normal[plane.axis] = plane.sign;
+    const [axisX, axisY] = [0, 1, 2].filter(idx => idx != plane.axis);
+    for (const [x, y, width, height] of planeRectangles) {
+      const corners = [[x, y], [x + width, y], [x + width, y + height], [x, y + height]]
+        .map(([cx, cy]) => [origin[0] + cx * gridSize, origin[1] + cy * gridSize] as vec2);
+
+      // The corners go counter-clockwise on the plane, which needs flipping depending on the facing
+      const isFlipped = (plane.sign > 0) != ((axisY - axisX + 3) % 3 == 1);
+      const orderedCorners = isFlipped ? [...corners].reverse() : corners;
+      rectangles.push({
+        corners: orderedCorners.map((point) => {
+          const position = [0, 0, 0] as vec3;
+          position[plane.axis] = plane.depth;
+          position[axisX] = point[0];
+          position[axisY] = point[1];
+          return position;
+        }),
+        normal,
+        axes: [axisX, axisY],
+        uvMapping: plane.uvMapping,
+      });
+    }
+    for (const triangle of replacedTriangles) {
+      removedTriangles.add(triangle.triangleIdx);
+    }
+  }
+
+  return { primitive, removedTriangles, rectangles };
+}
+
+// Rebuilds a primitive with its merged rectangles, returns how many triangles were removed
+// Edges are split wherever another vertex lies on them, so merged faces and their neighbors don't have T-junctions (which show up as tiny cracks)
+function rebuildPrimitive(document: Document, { primitive, removedTriangles, rectangles }: MergePlan, allPoints: PointIndex, newPoints: PointIndex): number {
+  const primitiveVertexPosition = primitive.getAttribute('POSITION')!;
+  const primitiveVertexNormal = primitive.getAttribute('NORMAL');
+  const primitiveVertexUV = primitive.getAttribute('TEXCOORD_0');
+  const triangles = getPrimitiveTriangles(primitive);
+
+  const newVertexIds = new Map<number, number>();
+  const positions: number[] = [], normals: number[] = [], uvs: number[] = [], indices: number[] = [];
+  const addVertex = (position: number[], normal: number[], uv: number[] | null) => {
+    positions.push(...position);
+    primitiveVertexNormal && normals.push(...normal);
+    primitiveVertexUV && uvs.push(...uv!);
+    return positions.length / 3 - 1;
+  };
+  const lerp = (a: number[], b: number[], t: number) => a.map((value, idx) => value + (b[idx] - value) * t);
+  const addPolygon = (vertexIds: number[], isOnEdge: boolean[]) => {
+    for (const triangle of triangulateConvexPolygon(isOnEdge)) {
+      indices.push(...triangle.map(idx => vertexIds[idx]));
+    }
+  };
+
+  // Keeps the remaining triangles, splitting them only where a new rectangle corner lies on one of their edges
+  let splitTriangles = 0;
+  triangles.forEach((vertexIds, triangleIdx) => {
+    if (removedTriangles.has(triangleIdx)) {
+      return;
+    }
+
+    const polygon: number[] = [], isOnEdge: boolean[] = [];
+    for (let i = 0; i < 3; i++) {
+      const [startId, endId] = [vertexIds[i], vertexIds[(i + 1) % 3]];
+      if (!newVertexIds.has(startId)) {
+        newVertexIds.set(startId, addVertex(
+          primitiveVertexPosition.getElement(startId, []),
+          primitiveVertexNormal ? primitiveVertexNormal.getElement(startId, []) : [],
+          primitiveVertexUV ? primitiveVertexUV.getElement(startId, []) : null,
+        ));
+      }
+      polygon.push(newVertexIds.get(startId)!);
+      isOnEdge.push(false);
+
+      // Other attributes are interpolated along the edge
+      const [start, end] = [startId, endId].map(id => primitiveVertexPosition.getElement(id, []));
+      const length = Math.hypot(...end.map((value, axis) => value - start[axis]));
+      for (const position of getPointsAlongEdge(newPoints, start, end)) {
+        const t = Math.hypot(...position.map((value, axis) => value - start[axis])) / length;
+        polygon.push(addVertex(
+          position,
+          primitiveVertexNormal ? lerp(primitiveVertexNormal.getElement(startId, []), primitiveVertexNormal.getElement(endId, []), t) : [],
+          primitiveVertexUV ? lerp(primitiveVertexUV.getElement(startId, []), primitiveVertexUV.getElement(endId, []), t) : null,
+        ));
+        isOnEdge.push(true);
+      }
+    }
+
+    splitTriangles += (polygon.length > 3) ? 1 : 0;
+    addPolygon(polygon, isOnEdge);
+  });
+
+  if (removedTriangles.size == 0 && splitTriangles == 0) {
+    return 0;
+  }
+
+  // Adds the rectangles, with their edges split at any vertices of the neighboring faces
+  for (const { corners, normal, axes, uvMapping } of rectangles) {
+    const getUv = (position: number[]) => uvMapping
+      ? [
+        uvMapping[0] * position[axes[0]] + uvMapping[1] * position[axes[1]] + uvMapping[4],
+        uvMapping[2] * position[axes[0]] + uvMapping[3] * position[axes[1]] + uvMapping[5],
+      ]
+      : null;
+
+    const polygon: number[] = [], isOnEdge: boolean[] = [];
+    corners.forEach((corner, idx) => {
+      polygon.push(addVertex(corner, normal, getUv(corner)));
+      isOnEdge.push(false);
+      for (const position of getPointsAlongEdge(allPoints, corner, corners[(idx + 1) % corners.length])) {
+        polygon.push(addVertex(position, normal, getUv(position)));
+        isOnEdge.push(true);
+      }
+    });
+    addPolygon(polygon, isOnEdge);
+  }
+
+  // Accessors can be shared with other primitives, so we always create new ones
+  const buffer = primitiveVertexPosition.getBuffer();
+  const createAccessor = (type: GLTF.AccessorType, array: Float32Array | Uint16Array | Uint32Array) => document.createAccessor()
+    .setType(type)
+    .setArray(array)
+    .setBuffer(buffer);
+  primitive.setAttribute('POSITION', createAccessor(Accessor.Type.VEC3, new Float32Array(positions)));
+  primitiveVertexNormal && primitive.setAttribute('NORMAL', createAccessor(Accessor.Type.VEC3, new Float32Array(normals)));
+  primitiveVertexUV && primitive.setAttribute('TEXCOORD_0', createAccessor(Accessor.Type.VEC2, new Float32Array(uvs)));
+  const primitiveVertexIndex = primitive.getIndices();
+  primitive.setIndices(createAccessor(Accessor.Type.SCALAR, positions.length / 3 > 65535 ? new Uint32Array(indices) : new Uint16Array(indices)));
+  disposeUnusedAccessors([primitiveVertexPosition, primitiveVertexNormal, primitiveVertexUV, primitiveVertexIndex]);
+
+  return triangles.length - indices.length / 3;
+}
+
+export default async function CoplanarMergeTransform({ document, transformer }: CommandParams, { gridSize = 0.25 }: CoplanarMergeOptions = {}) {
+  for (const mesh of document.getRoot().listMeshes()) {
+    const plans: MergePlan[] = [];
+    for (const primitive of mesh.listPrimitives()) {
+      // We can only rebuild the attributes we know about
+      const unsupportedSemantics = primitive.listSemantics().filter(semantic => !SUPPORTED_SEMANTICS.includes(semantic));
+      if (!primitive.getIndices() || unsupportedSemantics.length > 0 || primitive.listTargets().length > 0) {
+        transformer.notify(EventType.DEBUG, `Skipping face merging for mesh "${mesh.getName()}", primitive "${primitive.getName()}", as it has unsupported attributes: ${unsupportedSemantics.join(', ')}`);
+        continue;
+      }
+
+      plans.push(getMergePlan(primitive, gridSize));
+    }
+
+    // Faces of other materials can share edges with the merged ones, so all vertices left on the mesh are taken into account
+    const knownPositions = new Set<string>();
+    const allPoints: PointIndex = new Map(), newPoints: PointIndex = new Map();
+    for (const primitive of mesh.listPrimitives().filter(primitive => primitive.getIndices())) {
+      const primitiveVertexPosition = primitive.getAttribute('POSITION')!;
+      const removedTriangles = plans.find(plan => plan.primitive === primitive)?.removedTriangles;
+      getPrimitiveTriangles(primitive).forEach((vertexIds, triangleIdx) => {
+        if (removedTriangles?.has(triangleIdx)) {
+          return;
+        }
+        for (const vertexId of vertexIds) {
+          const position = primitiveVertexPosition.getElement(vertexId, []);
+          const positionHash = getHashFromPosition(position);
+          if (!knownPositions.has(positionHash)) {
+            knownPositions.add(positionHash);
+            addPointToIndex(allPoints, position);
+          }
+        }
+      });
+    }
+
+    // Rectangle corners can also land in the middle of an edge of the faces left, only those need splitting on them
+    for (const corner of plans.flatMap(plan => plan.rectangles.flatMap(rectangle => rectangle.corners))) {
+      const positionHash = getHashFromPosition(corner);
+      if (!knownPositions.has(positionHash)) {
+        knownPositions.add(positionHash);
+        addPointToIndex(allPoints, corner);
+        addPointToIndex(newPoints, corner);
+      }
+    }
+
+    for (const plan of plans) {
+      const triangleCount = plan.primitive.getIndices()!.getCount() / 3;
+      const removedTriangles = rebuildPrimitive(document, plan, allPoints, newPoints);
+      transformer.notify(EventType.DEBUG, `Merged faces for mesh "${mesh.getName()}", primitive "${plan.primitive.getName()}": ${triangleCount} -> ${triangleCount - removedTriangles} triangles`);
+    }
+  }
+}
\ No newline at end of file
@@ -1,4 +1,3 @@
-import { Vector } from 'vector-math';
 import { Accessor, vec3, vec4 } from '@gltf-transform/core';
 import { transformMesh } from '@gltf-transform/functions';
 
@@ -9,39 +8,10 @@ import {
   ProcessingQueueCommandParameters as CommandParams,
   EventType as EventType
 } from '../types';
-import { VectorObject } from 'vector-math/dist/lib/vector';
-
-type TriangleVertices = [vec3, vec3, vec3];
+import { TriangleVertices, getPrimitiveTriangleDirections, splitVerticesPerGroup } from '../MeshGeometry';
 
 const ROTATION_NONE: vec4 = [1, 0, 0, 0];
 
-const directions = {
-  right: new Vector(1, 0, 0),
-  left: new Vector(-1, 0, 0),
-  top: new Vector(0, 1, 0),
-  bottom: new Vector(0, -1, 0),
-  front: new Vector(0, 0, -1),
-  back: new Vector(0, 0, 1),
-};
-
-function vectorToArray(vector: VectorObject): vec3 {
-  return [vector.i, vector.j, vector.k];
-}
-
-function getFaceDirection(normal: vec3): vec3 {
-  let closestDirection: vec3 = [0, 0, 0], closestSimilarity: number = -Infinity;
-  let similarity;
-  for (const direction of Object.values(directions)) {
-    similarity = new Vector(...normal).Dot(direction);
-    if (similarity > closestSimilarity) {
-      closestDirection = vectorToArray(direction);
-      closestSimilarity = similarity;
-    }
-  }
-
-  return closestDirection;
-}
-
 function getPlaneCoordinatesFrom3dPoint(point3d: vec3, direction: vec3, swapYZ: boolean, offsetSize: number) {
   // Those are our mapping of axis to xyz indexes
   const axis = { x: 0, y: 1, z: 2 };
@@ -129,15 +99,18 @@ export default async function CreateUvMapsTransform({ document, transformer }: C
     for (const primitive of mesh.listPrimitives()) {
       // Skip if we have a UV for this primitive
       if (primitive.getAttribute('TEXCOORD_0')) {
-        return;
+        continue;
       }
 
       transformer.notify(EventType.DEBUG, `Preparing UVs for mesh "${mesh.getName()}", primitive "${primitive.getName()}"...`);
 
+      // Picks a projection plane for each triangle, vertices shared between different planes are split
+      const triangleDirections = getPrimitiveTriangleDirections(primitive);
+      splitVerticesPerGroup(primitive, triangleDirections.map(direction => direction.join(',')));
+
       // Gets list of vertices
       const primitiveVertexIndex = primitive.getIndices()!;
       const primitiveVertexPosition = primitive.getAttribute('POSITION')!;
-      const primitiveVertexNormal = primitive.getAttribute('NORMAL')!;
 
       // And let's create our UV map and set it to our primitive
       const primitiveVertexUV = document.createAccessor()
@@ -154,7 +127,6 @@ export default async function CreateUvMapsTransform({ document, transformer }: C
           primitiveVertexIndex.getScalar(idx + 2),
         ];
         const vertexPositions = vertexIds.map(id => primitiveVertexPosition.getElement(id, [])) as TriangleVertices;
-        const vertexNormals = vertexIds.map(id => primitiveVertexNormal.getElement(id, [])) as TriangleVertices;
         
         // Calculates and sets UV coordinates for each vertex
         for (let i = 0; i < 3; i++) {
@@ -163,8 +135,8 @@ export default async function CreateUvMapsTransform({ document, transformer }: C
           vertexPositions[i][1] += voxelOffsetSize;
           vertexPositions[i][2] -= voxelOffsetSize;
 
-          // Gets the XY coordinates from this vertex on a plane that matches its face direction
-          const uv = getPlaneCoordinatesFrom3dPoint(vertexPositions[i], getFaceDirection(vertexNormals[i]), swapYZ, voxelOffsetSize)
+          // Gets the XY coordinates from this vertex on the plane picked for the whole triangle
+          const uv = getPlaneCoordinatesFrom3dPoint(vertexPositions[i], triangleDirections[idx / 3], swapYZ, voxelOffsetSize)
             .map(xy => xy / textureSizeInMeters);
 
           // For UV space, we need to flip the Y coordinate, as higher numbers mean lower in the texture
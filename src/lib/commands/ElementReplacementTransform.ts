@@ -0,0 +1,242 @@
+import path from 'path';
+import { Document, Mesh, Node, Scene, vec3 } from '@gltf-transform/core';
+
+// @ts-ignore
+import { fromMat3 } from 'gl-matrix/quat';
+
+import {
+  ProcessingQueueCommandParameters as CommandParams,
+  EventType as EventType
+} from '../types';
+import DuMeshTransformer from '../DuMeshTransformer';
+import { getElementBoundsSignature } from '../ElementLibrary';
+import { disposeUnusedAccessors } from '../MeshGeometry';
+
+// Maps element fingerprints (or bounding box signatures, such as "250x500x1000") into the models replacing them
+export type ElementReplacements = Record<string, string>;
+
+// A model loaded into our document, which gets copied for every element it replaces
+type ProxyModel = {
+  nodes: Node[];
+  // Vertex positions in the model's space, with any node transforms applied
+  positions: vec3[];
+  min: vec3;
+  max: vec3;
+};
+
+// A rotation in 90 degree steps, as a row-major 3x3 matrix
+type AxisRotation = number[];
+
+// Limits how many vertices we compare when picking the right orientation, as it's a brute-force search
+const MAX_ORIENTATION_SAMPLES = 256;
+
+// Lists all 24 rotations in 90 degree steps, those are the axis permutations and sign flips with a determinant of 1
+function getAxisRotations(): AxisRotation[] {
+  const rotations: AxisRotation[] = [];
+  for (const [a, b, c] of [[0, 1, 2], [0, 2, 1], [1, 0, 2], [1, 2, 0], [2, 0, 1], [2, 1, 0]]) {
+    const parity = (a == 0 && b == 1) || (a == 1 && b == 2) || (a == 2 && b == 0) ? 1 : -1;
+    for (const sa of [1, -1]) {
+      for (const sb of [1, -1]) {
+        const sc = parity * sa * sb;
+        const rotation = new Array(9).fill(0);
+        rotation[0 * 3 + a] = sa;
+        rotation[1 * 3 + b] = sb;
+        rotation[2 * 3 + c] = sc;
+        rotations.push(rotation);
+      }
+    }
+  }
+  return rotations;
+}
+
+// Applies one of our rotations to a vector
+function rotate(rotation: AxisRotation, vector: number[]): vec3 {
+  return [0, 1, 2].map(row => rotation[row * 3] * vector[0] + rotation[row * 3 + 1] * vector[1] + rotation[row * 3 + 2] * vector[2]) as vec3;
+}
+
+// Picks up to a certain amount of items, evenly spread
+function sample<T>(items: T[], count: number): T[] {
+  return items.length <= count
+    ? items
+    : new Array(count).fill(0).map((_, idx) => items[Math.floor(idx * items.length / count)]);
+}
+
+// Gets the average distance from each point to the closest point on another set
+function getAverageDistance(from: vec3[], to: vec3[]): number {
+  return from.reduce((sum, a) => sum + Math.min(...to.map(b => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]))), 0) / (from.length || 1);
+}
+
+// Gets the vertex positions of a mesh, optionally transformed by a node's world matrix
+function getMeshPositions(mesh: Mesh, node: Node | null = null): vec3[] {
+  const matrix = node?.getWorldMatrix();
+  return mesh.listPrimitives().flatMap(primitive => {
+    const primitiveVertexPosition = primitive.getAttribute('POSITION');
+    const positions: vec3[] = [];
+    for (let idx = 0; idx < (primitiveVertexPosition?.getCount() || 0); idx++) {
+      const [x, y, z] = primitiveVertexPosition!.getElement(idx, []);
+      positions.push(matrix
+        ? [0, 1, 2].map(row => matrix[row] * x + matrix[4 + row] * y + matrix[8 + row] * z + matrix[12 + row]) as vec3
+        : [x, y, z]);
+    }
+    return positions;
+  });
+}
+
+// Gets the bounding box of a list of positions
+function getBounds(positions: vec3[]): { min: vec3, max: vec3 } {
+  const min: vec3 = [Infinity, Infinity, Infinity], max: vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const position of positions) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], position[axis]);
+      max[axis] = Math.max(max[axis], position[axis]);
+    }
+  }
+  return { min, max };
+}
+
+// Copies a node and its children, sharing the same meshes
+function cloneNodeTree(document: Document, node: Node): Node {
+  const copy = document.createNode(node.getName())
+    .setMesh(node.getMesh())
+    .setTranslation(node.getTranslation())
+    .setRotation(node.getRotation())
+    .setScale(node.getScale())
+    .setExtras({ ...node.getExtras() });
+  for (const child of node.listChildren()) {
+    copy.addChild(cloneNodeTree(document, child));
+  }
+  return copy;
+}
+
+// Loads a model into our document, its nodes are kept out of any scene so they can be copied later
+async function loadProxyModel(document: Document, file: string): Promise<ProxyModel> {
+  const existingScenes = new Set<Scene>(document.getRoot().listScenes());
+  const existingBuffers = document.getRoot().listBuffers();
+  document.merge(await DuMeshTransformer.readDocumentFromFile(file));
+
+  // A .glb can only have a single buffer, so everything is moved into ours
+  if (existingBuffers.length > 0) {
+    for (const accessor of document.getRoot().listAccessors()) {
+      if (!existingBuffers.includes(accessor.getBuffer()!)) {
+        accessor.setBuffer(existingBuffers[0]);
+      }
+    }
+    document.getRoot().listBuffers()
+      .filter(buffer => !existingBuffers.includes(buffer))
+      .forEach(buffer => buffer.dispose());
+  }
+
+  // Takes the nodes out of the model's scenes
+  const nodes: Node[] = [];
+  for (const scene of document.getRoot().listScenes().filter(scene => !existingScenes.has(scene))) {
+    for (const node of scene.listChildren()) {
+      scene.removeChild(node);
+      nodes.push(node);
+    }
+    scene.dispose();
+  }
+
+  // We need the positions to figure out where the model goes
+  const positions: vec3[] = [];
+  for (const root of nodes) {
+    root.traverse(node => {
+      const mesh = node.getMesh();
+      if (mesh) {
+        positions.push(...getMeshPositions(mesh, node));
+      }
+    });
+  }
+  if (positions.length == 0) {
+    throw new Error(`The element model "${file}" has no geometry`);
+  }
+
+  return { nodes, positions, ...getBounds(positions) };
+}
+
+// Finds the rotation which best fits a model onto the geometry of an element
+function getBestRotation(model: ProxyModel, elementPositions: vec3[]): { rotation: AxisRotation, offset: vec3 } {
+  const element = getBounds(elementPositions);
+  const elementCenter = element.min.map((value, axis) => (value + element.max[axis]) / 2) as vec3;
+  const elementSize = element.max.map((value, axis) => value - element.min[axis]);
+  const modelCenter = model.min.map((value, axis) => (value + model.max[axis]) / 2) as vec3;
+  const modelSize = model.max.map((value, axis) => value - model.min[axis]);
+
+  // First, only keeps the rotations where the bounding boxes line up best
+  const candidates = getAxisRotations().map(rotation => {
+    const rotatedSize = rotate(rotation, modelSize).map(Math.abs);
+    return { rotation, error: rotatedSize.reduce((sum, size, axis) => sum + Math.abs(size - elementSize[axis]), 0) };
+  });
+  const bestError = Math.min(...candidates.map(({ error }) => error));
+  const tolerance = Math.max(0.001, bestError * 1.05);
+
+  // Then, for boxes that look the same on multiple sides, compares the actual shapes
+  const modelSamples = sample(model.positions, MAX_ORIENTATION_SAMPLES).map(position => position.map((value, axis) => value - modelCenter[axis]));
+  const elementSamples = sample(elementPositions, MAX_ORIENTATION_SAMPLES).map(position => position.map((value, axis) => value - elementCenter[axis]) as vec3);
+  const scored = candidates
+    .filter(({ error }) => error <= tolerance)
+    .map(({ rotation }) => {
+      const rotatedSamples = modelSamples.map(position => rotate(rotation, position));
+      return { rotation, distance: getAverageDistance(rotatedSamples, elementSamples) + getAverageDistance(elementSamples, rotatedSamples) };
+    })
+    .sort((a, b) => a.distance - b.distance);
+
+  // The model's center ends up on the element's center
+  const rotation = scored[0].rotation;
+  const rotatedModelCenter = rotate(rotation, modelCenter);
+  return { rotation, offset: elementCenter.map((value, axis) => value - rotatedModelCenter[axis]) as vec3 };
+}
+
+export default async function ElementReplacementTransform({ document, transformer }: CommandParams, replacements: ElementReplacements = {}) {
+  // Separated elements are tagged with their fingerprint
+  const elementNodes = document.getRoot().listNodes()
+    .filter(node => !!node.getMesh() && !!node.getExtras()['fingerprint']);
+  if (elementNodes.length == 0) {
+    transformer.notify(EventType.WARNING, `No separated elements found, element replacements require separating elements first. Skipping...`);
+    return;
+  }
+
+  // Each model is only loaded once, then copied for every element it replaces
+  const models: Record<string, ProxyModel> = {};
+  for (const node of elementNodes) {
+    const mesh = node.getMesh()!;
+    const positions = getMeshPositions(mesh);
+    const fingerprint = node.getExtras()['fingerprint'] as string;
+    const { min, max } = getBounds(positions);
+    const file = replacements[fingerprint] || replacements[getElementBoundsSignature(min, max)];
+    if (!file) {
+      continue;
+    }
+
+    transformer.notify(EventType.DEBUG, `Replacing "${node.getName()}" with "${file}"...`);
+    models[file] = models[file] || await loadProxyModel(document, file);
+
+    // The model is placed in the element's own space, so it inherits its position and the construct's orientation
+    const { rotation, offset } = getBestRotation(models[file], positions);
+    const modelNode = document.createNode(path.basename(file, path.extname(file)))
+      .setTranslation(offset)
+      .setRotation(fromMat3([], [0, 1, 2].flatMap(column => [0, 1, 2].map(row => rotation[row * 3 + column]))));
+    for (const modelRoot of models[file].nodes) {
+      modelNode.addChild(cloneNodeTree(document, modelRoot));
+    }
+    node.addChild(modelNode);
+
+    // Removes the original geometry, keeping the element node along with its name and extras
+    // Only the model's file name is kept, as full paths would leak the user's own folders into shared files
+    node.setMesh(null)
+      .setExtras({ ...node.getExtras(), replaced_by: path.basename(file) });
+    if (!document.getRoot().listNodes().some(other => other.getMesh() == mesh)) {
+      const primitives = mesh.listPrimitives();
+      const accessors = primitives.flatMap(primitive => [primitive.getIndices(), ...primitive.listAttributes()]);
+      primitives.forEach(primitive => primitive.dispose());
+      mesh.dispose();
+      disposeUnusedAccessors(accessors);
+    }
+  }
+
+  // The original copies of the models aren't used anymore
+  for (const model of Object.values(models)) {
+    const templateNodes: Node[] = [];
+    model.nodes.forEach(root => root.traverse(node => templateNodes.push(node)));
+    templateNodes.forEach(node => node.dispose());
+  }
+}
\ No newline at end of file
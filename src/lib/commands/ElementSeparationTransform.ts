@@ -1,375 +1,393 @@
-import { Accessor, Mesh, Node } from '@gltf-transform/core';
+import { Accessor, Buffer, Document, Material, Mesh, Node, Primitive, Scene, vec3, vec4 } from '@gltf-transform/core';
 import { transformMesh } from '@gltf-transform/functions';
 
 // @ts-ignore
 import { fromTranslation } from 'gl-matrix/mat4';
+// @ts-ignore
+import { invert } from 'gl-matrix/quat';
+// @ts-ignore
+import { transformQuat } from 'gl-matrix/vec3';
 
 import {
   ProcessingQueueCommandParameters as CommandParams,
   EventType as EventType
 } from '../types';
+import { getElementFingerprint } from '../ElementLibrary';
+import { disposeUnusedAccessors } from '../MeshGeometry';
+
+export type ElementPivot = 'center' | 'bottom';
+
+export type ElementSeparationOptions = {
+  // Where each isolated element's origin ends up, either the center of its bounding box or the center of its bottom face
+  pivot?: ElementPivot;
+};
+
+type Bounds = { min: vec3, max: vec3 };
+
+// Positions are rounded to this many units per meter (millimeters) when checking whether vertices touch
+const POSITION_PRECISION = 1000;
 
-// Helper function to get a hash of the vertex position
-function getHashFromPosition(position: number[]): string {
-  return position.map(component => component.toFixed(3))
-    .join('|');
+// Finds the root of an item on our union-find structure, flattening the path along the way
+function findRoot(parents: Int32Array, idx: number): number {
+  while (parents[idx] != idx) {
+    parents[idx] = parents[parents[idx]];
+    idx = parents[idx];
+  }
+  return idx;
 }
 
-export default async function ElementSeparationTransform({ document, transformer }: CommandParams) {
-  // Ensure we only have one Mesh for certain operations
-  if (document.getRoot().listMeshes().length != 1) {
-    transformer.notify(EventType.WARNING, `You must have exactly one mesh in the file for element separation to work. Skipping...`);
-    return;
+// Gives the same id to every vertex on the same (rounded) position, across multiple accessors
+// This sorts the rounded positions instead of hashing them, which is much faster on large exports
+function getPositionIds(accessors: Accessor[]): { positionIds: Map<Accessor, Int32Array>, positionCount: number } {
+  const vertexCount = accessors.reduce((count, accessor) => count + accessor.getCount(), 0);
+  const rounded = [new Int32Array(vertexCount), new Int32Array(vertexCount), new Int32Array(vertexCount)];
+  let offset = 0;
+  const position: number[] = [];
+  for (const accessor of accessors) {
+    for (let idx = 0; idx < accessor.getCount(); idx++) {
+      accessor.getElement(idx, position);
+      for (let axis = 0; axis < 3; axis++) {
+        rounded[axis][offset + idx] = Math.round(position[axis] * POSITION_PRECISION);
+      }
+    }
+    offset += accessor.getCount();
   }
 
-  // Extracts the default mesh and its corresponding node
-  // If the node is not present, we can create it, no issues
-  const defaultMesh = document.getRoot().listMeshes()[0];
-  const defaultMeshNode = document.getRoot().listNodes().find(
-    (node) => node.getMesh() == defaultMesh
-  ) || document.createNode().setMesh(defaultMesh);
+  // Sorts the vertices by position, so any vertices on the same position end up next to each other
+  const order = new Uint32Array(vertexCount).map((_, idx) => idx)
+    .sort((a, b) => (rounded[0][a] - rounded[0][b]) || (rounded[1][a] - rounded[1][b]) || (rounded[2][a] - rounded[2][b]));
 
-  // Ensure we also have a default material
-  if (document.getRoot().listMaterials().length == 0) {
-    transformer.notify(EventType.WARNING, `You must have at least one material for separation to work. Skipping...`);
-    return;
+  const ids = new Int32Array(vertexCount);
+  let positionCount = 0;
+  order.forEach((vertexIdx, idx) => {
+    const previousIdx = order[idx - 1];
+    if (idx > 0 && rounded.some(axis => axis[vertexIdx] != axis[previousIdx])) {
+      positionCount++;
+    }
+    ids[vertexIdx] = positionCount;
+  });
+
+  // Splits the ids back per accessor
+  const positionIds = new Map<Accessor, Int32Array>();
+  offset = 0;
+  for (const accessor of accessors) {
+    positionIds.set(accessor, ids.subarray(offset, offset + accessor.getCount()));
+    offset += accessor.getCount();
   }
 
-  // Let's get the "default" material that would be assigned to any exported Elements
-  const defaultMaterial = document.getRoot().listMaterials()[0];
-
-  // Let's have a "default scene", too
-  const defaultScene = document.getRoot().getDefaultScene() || document.createScene();
+  return { positionIds, positionCount: vertexCount > 0 ? positionCount + 1 : 0 };
+}
 
-  // Loads the buffer we'll be working on
-  const documentBuffer = document.getRoot().listBuffers()[0] || document.createBuffer();
+// Copies some of the vertices of an accessor into a new one, keeping its type
+function copyVertices(document: Document, accessor: Accessor, vertexIds: Uint32Array, buffer: Buffer): Accessor {
+  const elementSize = accessor.getElementSize();
+  const source = accessor.getArray()!;
+  const target = new (source.constructor as new (length: number) => typeof source)(vertexIds.length * elementSize);
+  vertexIds.forEach((vertexId, idx) => {
+    for (let component = 0; component < elementSize; component++) {
+      target[idx * elementSize + component] = source[vertexId * elementSize + component];
+    }
+  });
 
-  // Fixes the centering so that it happens in the Mesh Primitives themselves, not in the Nodes
-  // The main reason for this is so that the origin is correct and rotation doesn't break in apps like Blender
-  const baseTranslation = defaultMeshNode.getTranslation();
-  baseTranslation[2] = -baseTranslation[2];
-  transformMesh(defaultMesh, fromTranslation([], baseTranslation));
-  defaultMeshNode.setTranslation([0, 0, 0]);
+  return document.createAccessor()
+    .setType(accessor.getType())
+    .setArray(target)
+    .setNormalized(accessor.getNormalized())
+    .setBuffer(buffer);
+}
 
-  // Let's create a map between Materials and Meshes
-  const meshesPerMaterial: Record<string, Mesh> = {};
-  const nodesPerMaterial: Record<string, Node> = {};
-  const nodesForIslands: Node[] = [];
-  defaultMesh.setName(defaultMaterial.getName());
-  defaultMeshNode.setName(defaultMesh.getName());
-  meshesPerMaterial[defaultMaterial.getName()] = defaultMesh;
-  nodesPerMaterial[defaultMaterial.getName()] = defaultMeshNode;
-
-  // Let's map all positions in the other meshes, as those are always voxels
-  const voxelVertices = new Set<string>();
-  const defaultPrimitives = [];
-  transformer.notify(EventType.DEBUG, `Indexing voxel positions for "${defaultMesh.getName()}"...`);
-  for (const primitive of defaultMesh.listPrimitives()) {
-    const primitiveMaterial = primitive.getMaterial();
-    // if (primitiveMaterial && primitiveMaterial.getName() != defaultMesh.getName()) {
-    if (primitiveMaterial && primitiveMaterial === defaultMaterial) {
-      // Saves anything with default material for mesh separation
-      defaultPrimitives.push(primitive);
-    } else {
-      // Indexes the vertices for this primitive
-      const vertices = primitive.getAttribute('POSITION');
-      if (vertices) {
-        for (let idx = 0; idx < vertices.getCount(); idx++) {
-          voxelVertices.add(getHashFromPosition(vertices.getElement(idx, [])));
-        }
-      }
+// Rebuilds a primitive with only some of its triangles, keeping three vertices per triangle like the original export
+// Indices are 32-bit when there are too many vertices for 16-bit ones
+function createPrimitiveFromTriangles(document: Document, primitive: Primitive, triangleIds: number[], buffer: Buffer, name: string): Primitive {
+  const primitiveIndices = primitive.getIndices()!;
+  const vertexIds = new Uint32Array(triangleIds.length * 3);
+  triangleIds.forEach((triangleId, idx) => {
+    for (let i = 0; i < 3; i++) {
+      vertexIds[idx * 3 + i] = primitiveIndices.getScalar(triangleId * 3 + i);
     }
+  });
+
+  const indices = (vertexIds.length > 65535)
+    ? new Uint32Array(vertexIds.length)
+    : new Uint16Array(vertexIds.length);
+  indices.forEach((_, idx) => indices[idx] = idx);
+
+  const newPrimitive = document.createPrimitive()
+    .setName(name)
+    .setMaterial(primitive.getMaterial())
+    .setIndices(document.createAccessor().setType(Accessor.Type.SCALAR).setArray(indices).setBuffer(buffer));
+  for (const semantic of primitive.listSemantics()) {
+    newPrimitive.setAttribute(semantic, copyVertices(document, primitive.getAttribute(semantic)!, vertexIds, buffer));
   }
 
-  // Let's assign one Mesh per Material
-  transformer.notify(EventType.DEBUG, `Starting mesh separation process for "${defaultMesh.getName()}"...`);
-  for (const primitive of defaultPrimitives) {
-    // When handling the default mesh, we'll want to separate elements from build materials
-    // One idea here is to loop through the indices (which should be the triangles of vertices) and find "islands" of isolated vertices
-    const primitiveIndices = primitive.getIndices()!;
+  return newPrimitive;
+}
 
-    // Let's also load the raw vertex positions
-    const primitiveVertexPositions = primitive.getAttribute('POSITION')!;
+// Gets the bounding box of all positions in an accessor
+function getBounds(positions: Accessor): Bounds {
+  const bounds: Bounds = { min: [Infinity, Infinity, Infinity], max: [-Infinity, -Infinity, -Infinity] };
+  for (let idx = 0; idx < positions.getCount(); idx++) {
+    const position = positions.getElement(idx, []);
+    for (let axis = 0; axis < 3; axis++) {
+      bounds.min[axis] = Math.min(bounds.min[axis], position[axis]);
+      bounds.max[axis] = Math.max(bounds.max[axis], position[axis]);
+    }
+  }
+  return bounds;
+}
 
-    // Let's also load vertex normals
-    const primitiveVertexNormals = primitive.getAttribute('NORMAL')!;
+// Finds which local axis (and its sign) points up (Y+) once the node rotation is applied
+function getLocalUpAxis(rotation: vec4): [number, number] {
+  const localUp: vec3 = transformQuat([], [0, 1, 0], invert([], rotation));
+  const axis = [0, 1, 2].reduce((best, axis) => Math.abs(localUp[axis]) > Math.abs(localUp[best]) ? axis : best, 0);
+  return [axis, Math.sign(localUp[axis]) || 1];
+}
+
+// Gets the pivot of an element from its bounds, in local coordinates
+function getPivot(bounds: Bounds, pivot: ElementPivot, [upAxis, upSign]: [number, number]): vec3 {
+  const center = bounds.min.map((value, axis) => (value + bounds.max[axis]) / 2) as vec3;
+  if (pivot == 'bottom') {
+    center[upAxis] = upSign > 0 ? bounds.min[upAxis] : bounds.max[upAxis];
+  }
+  return center;
+}
 
-    // Let's load the UV data for those vertices
-    const primitiveVertexUV = primitive.getAttribute('TEXCOORD_0')!;
+export type ElementIslands = {
+  // The primitive (with the default material) the islands were found on
+  primitive: Primitive;
+  // Triangle ids for each group of triangles attached to voxels
+  voxelIslands: number[][];
+  // Triangle ids for each isolated group of triangles, those are our elements
+  islands: number[][];
+};
+
+/**
+ * Finds the "islands" of triangles connected by their vertex positions, on every primitive of a mesh using the default material
+ * Islands touching voxels (on positions with at least two vertices) are kept apart from the isolated ones, which are the elements
+ */
+export function findElementIslands(mesh: Mesh, defaultMaterial: Material): ElementIslands[] {
+  // Anything with the default material can contain elements, anything else is always voxels
+  const defaultPrimitives = mesh.listPrimitives()
+    .filter(primitive => primitive.getMaterial() === defaultMaterial && primitive.getIndices() && primitive.getAttribute('POSITION'));
+  if (defaultPrimitives.length == 0) {
+    return [];
+  }
 
-    // Helper function to get a hash of the vertex position
-    function getVertexPositionHash(vertexId: number): string {
-      return getHashFromPosition(primitiveVertexPositions.getElement(vertexId, []));
+  // Let's map all positions in the mesh, so we know which ones are shared with voxels
+  const positionAccessors = [...new Set(mesh.listPrimitives()
+    .map(primitive => primitive.getAttribute('POSITION'))
+    .filter(accessor => !!accessor) as Accessor[])];
+  const { positionIds, positionCount } = getPositionIds(positionAccessors);
+  const isVoxelPosition = new Uint8Array(positionCount);
+  for (const primitive of mesh.listPrimitives()) {
+    const vertices = primitive.getAttribute('POSITION');
+    if (vertices && !defaultPrimitives.includes(primitive)) {
+      positionIds.get(vertices)!.forEach(positionId => isVoxelPosition[positionId] = 1);
     }
+  }
 
-    // Let's first get a list of all triangles and any vertices they share
-    // Let's also build a list of all vertices and the triangles they share
-    const trianglesPerVertex: Record<number, Set<number>> = {};
-    const verticesPerTriangle: Record<number, Set<number>> = {};
-    const verticesPerPosition: Record<string, Set<number>> = {};
-    const triangleSize = 3;
-    const triangleCount = primitiveIndices.getCount() / triangleSize;
-    let vertexId = null;
-    for (let i = 0; i < triangleCount; i++) {
-      for (let o = 0; o < triangleSize; o++) {
-        vertexId = primitiveIndices.getScalar(i * triangleSize + o);
-        
-        trianglesPerVertex[vertexId] = trianglesPerVertex[vertexId] || new Set();
-        trianglesPerVertex[vertexId].add(i);
-        
-        verticesPerTriangle[i] = verticesPerTriangle[i] || new Set();
-        verticesPerTriangle[i].add(vertexId);
+  return defaultPrimitives.map(primitive => {
+    const primitiveIndices = primitive.getIndices()!;
+    const primitiveVertexPositions = primitive.getAttribute('POSITION')!;
+    const primitivePositionIds = positionIds.get(primitiveVertexPositions)!;
+    const triangleCount = Math.floor(primitiveIndices.getCount() / 3);
+
+    // Joins any triangles sharing a position, while counting how many different vertices are on each position
+    const parents = new Int32Array(triangleCount).map((_, idx) => idx);
+    const firstTriangleAtPosition = new Int32Array(positionCount).fill(-1);
+    const verticesAtPosition = new Uint32Array(positionCount);
+    const isVertexCounted = new Uint8Array(primitiveVertexPositions.getCount());
+    for (let triangleId = 0; triangleId < triangleCount; triangleId++) {
+      for (let i = 0; i < 3; i++) {
+        const vertexId = primitiveIndices.getScalar(triangleId * 3 + i);
+        const positionId = primitivePositionIds[vertexId];
+        if (!isVertexCounted[vertexId]) {
+          isVertexCounted[vertexId] = 1;
+          verticesAtPosition[positionId]++;
+        }
+
+        if (firstTriangleAtPosition[positionId] < 0) {
+          firstTriangleAtPosition[positionId] = triangleId;
+        } else {
+          parents[findRoot(parents, triangleId)] = findRoot(parents, firstTriangleAtPosition[positionId]);
+        }
       }
     }
-    
-    // Finally, let's build a list of vertices based on their vertex position
-    Object.keys(trianglesPerVertex).map(id => parseInt(id))
-      .forEach(vertexId => {
-        const positionHash = getVertexPositionHash(vertexId);
-        verticesPerPosition[positionHash] = verticesPerPosition[positionHash] || new Set();
-        verticesPerPosition[positionHash].add(vertexId);
-      });
-
-    // Let's find the actual "islands"
-    const triangleIslands: Set<number>[] = [];
-    const triangleVoxelIslands: Set<number>[] = [];
-    const triangleIdsToProcess = new Set(Object.keys(verticesPerTriangle).map(index => parseInt(index)));
-    while (triangleIdsToProcess.size > 0) {
-      // Create a new "island"
-      const islandTriangleIds = new Set<number>();
-
-      // Those are our triangles to process next
-      const nextTriangles = new Set<number>([triangleIdsToProcess.values().next().value]);
-
-      // This will determine whether our island is connected to voxels or not, so we can attach it to a voxel block later
-      let voxelConnections = 0;
-
-      // This is our starting point
-      let currentTriangleId = null;
-      while (nextTriangles.size > 0) {
-        // Gets the next triangle
-        currentTriangleId = nextTriangles.values().next().value;
-
-        // Saves triangle id as part of our "island"
-        islandTriangleIds.add(currentTriangleId);
-
-        // Removes triangle from next buffer and from pending list
-        nextTriangles.delete(currentTriangleId);
-        triangleIdsToProcess.delete(currentTriangleId);
-
-        // Processes each of the vertices, queueing them for processing
-        for (const triangleVertexId of verticesPerTriangle[currentTriangleId] || []) {
-          // Let's track how many vertices from this triangle match voxels
-          let triangleVoxelConnections = 0;
-
-          // Processes individual vertices
-          for (const vertexId of verticesPerPosition[getVertexPositionHash(triangleVertexId)] || []) {
-            // Checks if vertex matches a voxel vertex
-            if (voxelVertices.has(getVertexPositionHash(vertexId))) {
-              triangleVoxelConnections++;
-            }
-
-            // Queues next triangle, if not processed yet
-            for (const nextTriangleId of trianglesPerVertex[vertexId] || []) {
-              if (!islandTriangleIds.has(nextTriangleId)) {
-                nextTriangles.add(nextTriangleId);
-              }
-            }
-          }
-          
-          // Detects if the triangle matches a triangle in voxels
-          if (triangleVoxelConnections >= 2) {
-            voxelConnections++;
-          }
+
+    // Counts how many times each island touches voxels
+    const voxelConnections = new Uint32Array(triangleCount);
+    for (let triangleId = 0; triangleId < triangleCount; triangleId++) {
+      for (let i = 0; i < 3; i++) {
+        const positionId = primitivePositionIds[primitiveIndices.getScalar(triangleId * 3 + i)];
+        if (isVoxelPosition[positionId] && verticesAtPosition[positionId] >= 2) {
+          voxelConnections[findRoot(parents, triangleId)]++;
         }
       }
+    }
 
-      if (voxelConnections >= 2) {
-        // Saves our "voxel island" for later combination
-        transformer.notify(EventType.DEBUG, `Finished voxel grouping #${triangleVoxelIslands.length} with ${islandTriangleIds.size} triangles, ${triangleIdsToProcess.size} triangles remaining`);
-        triangleVoxelIslands.push(islandTriangleIds);
-      } else {
-        // Isolates our "island" from everything else
-        transformer.notify(EventType.DEBUG, `Finished grouping #${triangleIslands.length} with ${islandTriangleIds.size} triangles, ${triangleIdsToProcess.size} triangles remaining`);
-        triangleIslands.push(islandTriangleIds);
+    // Groups the triangles per island, in the order they first show up
+    const islandIdxPerRoot = new Int32Array(triangleCount).fill(-1);
+    const islands: number[][] = [];
+    for (let triangleId = 0; triangleId < triangleCount; triangleId++) {
+      const root = findRoot(parents, triangleId);
+      if (islandIdxPerRoot[root] < 0) {
+        islandIdxPerRoot[root] = islands.length;
+        islands.push([]);
       }
+      islands[islandIdxPerRoot[root]].push(triangleId);
     }
 
-    // Let's rebuild the voxel geometry into a single primitive
-    if (triangleVoxelIslands.length > 0) {
-      transformer.notify(EventType.DEBUG, `Building ${triangleVoxelIslands.length} primitives, meshes and nodes...`);
-      
-        // Builds our Primitive's Acessors
-        const newTriangleCount = triangleVoxelIslands.reduce((sum, triangles) => sum + triangles.size, 0);
-        const newVertexCount = newTriangleCount * triangleSize;
-        const newPrimitiveIndices = document.createAccessor()
-          .setArray(new Uint16Array(newVertexCount))
-          .setType(Accessor.Type.SCALAR)
-          .setBuffer(documentBuffer);
-        const newPrimitiveVertexPositions = document.createAccessor()
-          .setArray(new Float32Array(newVertexCount * 3))
-          .setType(Accessor.Type.VEC3)
-          .setBuffer(documentBuffer);
-        const newPrimitiveVertexNormals = document.createAccessor()
-          .setArray(new Float32Array(newVertexCount * 3))
-          .setType(Accessor.Type.VEC3)
-          .setBuffer(documentBuffer);
-        const newPrimitiveVertexUVs = document.createAccessor()
-          .setArray(new Float32Array(newVertexCount * 2))
-          .setType(Accessor.Type.VEC2)
-          .setBuffer(documentBuffer);
-
-      // Builds the vertex data
-      let baseIdx = 0;
-      triangleVoxelIslands.forEach(
-        (triangleIds, islandId) => {
-          // Builds the Primitive's actual vertex/triangle data
-          [...triangleIds].forEach((triangleId, localIdx) => {
-            const idx = baseIdx + localIdx;
-
-            const originalIndices = [
-              primitiveIndices.getScalar(triangleSize * triangleId + 0),
-              primitiveIndices.getScalar(triangleSize * triangleId + 1),
-              primitiveIndices.getScalar(triangleSize * triangleId + 2),
-            ];
-            const originalVertexPositions = [
-              primitiveVertexPositions.getElement(originalIndices[0], []),
-              primitiveVertexPositions.getElement(originalIndices[1], []),
-              primitiveVertexPositions.getElement(originalIndices[2], []),
-            ];
-            const originalVertexNormals = [
-              primitiveVertexNormals.getElement(originalIndices[0], []),
-              primitiveVertexNormals.getElement(originalIndices[1], []),
-              primitiveVertexNormals.getElement(originalIndices[2], []),
-            ];
-            const originalVertexUVs = [
-              primitiveVertexUV.getElement(originalIndices[0], []),
-              primitiveVertexUV.getElement(originalIndices[1], []),
-              primitiveVertexUV.getElement(originalIndices[2], []),
-            ];
-
-            originalVertexPositions.forEach((position, i) => {
-              const index = triangleSize * idx + i;
-              newPrimitiveVertexPositions.setElement(index, position);
-              newPrimitiveIndices.setScalar(index, index);
-            });
+    return {
+      primitive,
+      voxelIslands: islands.filter(triangleIds => voxelConnections[findRoot(parents, triangleIds[0])] >= 2),
+      islands: islands.filter(triangleIds => voxelConnections[findRoot(parents, triangleIds[0])] < 2),
+    };
+  });
+}
 
-            originalVertexNormals.forEach((normal, i) => {
-              const index = triangleSize * idx + i;
-              newPrimitiveVertexNormals.setElement(index, normal);
-              newPrimitiveIndices.setScalar(index, index);
-            });
+export default async function ElementSeparationTransform({ document, transformer }: CommandParams, { pivot: pivotMode = 'center' }: ElementSeparationOptions = {}) {
+  // Ensure we have something to separate
+  const meshes = document.getRoot().listMeshes();
+  if (meshes.length == 0) {
+    transformer.notify(EventType.WARNING, `You must have at least one mesh in the file for element separation to work. Skipping...`);
+    return;
+  }
 
-            originalVertexUVs.forEach((uv, i) => {
-              const index = triangleSize * idx + i;
-              newPrimitiveVertexUVs.setElement(index, uv);
-            });
-          });
+  // Ensure we also have a default material
+  if (document.getRoot().listMaterials().length == 0) {
+    transformer.notify(EventType.WARNING, `You must have at least one material for separation to work. Skipping...`);
+    return;
+  }
 
-          // Updates the base index
-          baseIdx += triangleIds.size;
-        }
-      );
-      
-      // Registers our new primitive
-      const newName = defaultMaterial.getName();
-      const newPrimitive = document.createPrimitive()
-        .setName(newName)
-        .setAttribute('POSITION', newPrimitiveVertexPositions)
-        .setAttribute('NORMAL', newPrimitiveVertexNormals)
-        .setAttribute('TEXCOORD_0', newPrimitiveVertexUVs)
-        .setIndices(newPrimitiveIndices)
-        .setMaterial(defaultMaterial);
-      defaultMesh.addPrimitive(newPrimitive);
-
-      transformer.notify(EventType.DEBUG, `Created new primitive for "${newName}"`);
+  // Let's get the "default" material that would be assigned to any exported Elements
+  const defaultMaterial = document.getRoot().listMaterials()[0];
+
+  // Loads the buffer we'll be working on
+  const documentBuffer = document.getRoot().listBuffers()[0] || document.createBuffer();
+
+  // Keeps track of the nodes we'll be renaming at the end
+  const meshNodes: Node[] = [];
+  const nodesForIslands: Node[] = [];
+
+  for (const [meshIdx, defaultMesh] of meshes.entries()) {
+    // Extracts the node for this mesh
+    // If the node is not present, we can create it, no issues
+    const defaultMeshNode = document.getRoot().listNodes().find(
+      (node) => node.getMesh() == defaultMesh
+    ) || document.createNode().setMesh(defaultMesh);
+
+    // Let's use the scene (or parent node) our mesh is in, so any new nodes end up next to it
+    const defaultScene: Scene = document.getRoot().listScenes().find(scene => scene.listChildren().includes(defaultMeshNode))
+      || document.getRoot().getDefaultScene()
+      || document.getRoot().listScenes()[0]
+      || document.createScene();
+    const defaultParent = defaultMeshNode.getParentNode() || defaultScene;
+    if (!defaultMeshNode.getParentNode() && !defaultScene.listChildren().includes(defaultMeshNode)) {
+      defaultScene.addChild(defaultMeshNode);
     }
 
-    // Let's rebuild the geometry as individual meshes for each "island"
-    if (triangleIslands.length > 0) {
-      transformer.notify(EventType.DEBUG, `Building ${triangleIslands.length} primitives, meshes and nodes...`);
-
-      // Let's already create our mesh to avoid polluting the whole document
-      const newMeshName = `${defaultMaterial.getName()} (Isolated)`;
-      const newMesh = document.createMesh()
-        .setName(newMeshName);
-      const newNode = document.createNode()
-        .setName(newMeshName)
-        .setMesh(newMesh)
-        .setRotation(defaultMeshNode.getRotation());
-      nodesForIslands.push(newNode);
-      defaultScene.addChild(newNode);
-
-      // Processes the "islands"
-      triangleIslands.forEach(
-        (triangleIds, islandId) => {
-          // Builds our Primitive's Acessors
-          const newTriangleCount = triangleIds.size;
-          const newVertexCount = newTriangleCount * triangleSize;
-          const newPrimitiveIndices = document.createAccessor()
-            .setArray(new Uint16Array(newVertexCount))
-            .setType(Accessor.Type.SCALAR)
-            .setBuffer(documentBuffer);
-          const newPrimitiveVertexPositions = document.createAccessor()
-            .setArray(new Float32Array(newVertexCount * 3))
-            .setType(Accessor.Type.VEC3)
-            .setBuffer(documentBuffer);
-          const newPrimitiveVertexUVs = document.createAccessor()
-            .setArray(new Float32Array(newVertexCount * 2))
-            .setType(Accessor.Type.VEC2)
-            .setBuffer(documentBuffer);
-
-          // Builds the Primitive's actual vertex/triangle data
-          [...triangleIds].forEach((triangleId, idx) => {
-            const originalIndices = [
-              primitiveIndices.getScalar(triangleSize * triangleId + 0),
-              primitiveIndices.getScalar(triangleSize * triangleId + 1),
-              primitiveIndices.getScalar(triangleSize * triangleId + 2),
-            ];
-            const originalVertexPositions = [
-              primitiveVertexPositions.getElement(originalIndices[0], []),
-              primitiveVertexPositions.getElement(originalIndices[1], []),
-              primitiveVertexPositions.getElement(originalIndices[2], []),
-            ];
-            const originalVertexUVs = [
-              primitiveVertexUV.getElement(originalIndices[0], []),
-              primitiveVertexUV.getElement(originalIndices[1], []),
-              primitiveVertexUV.getElement(originalIndices[2], []),
-            ];
-
-            originalVertexPositions.forEach((position, i) => {
-              const index = triangleSize * idx + i;
-              newPrimitiveVertexPositions.setElement(index, position);
-              newPrimitiveIndices.setScalar(index, index);
-            });
+    // Fixes the centering so that it happens in the Mesh Primitives themselves, not in the Nodes
+    // The main reason for this is so that the origin is correct and rotation doesn't break in apps like Blender
+    const baseTranslation = defaultMeshNode.getTranslation();
+    baseTranslation[2] = -baseTranslation[2];
+    transformMesh(defaultMesh, fromTranslation([], baseTranslation));
+    defaultMeshNode.setTranslation([0, 0, 0]);
+
+    // Single meshes are named after the default material, as usual, while multiple meshes keep their names so they can be told apart
+    const baseName = (meshes.length == 1)
+      ? defaultMaterial.getName()
+      : (defaultMesh.getName() || `Mesh ${meshIdx}`);
+    defaultMesh.setName(baseName);
+    defaultMeshNode.setName(baseName);
+    meshNodes.push(defaultMeshNode);
 
-            originalVertexUVs.forEach((uv, i) => {
-              const index = triangleSize * idx + i;
-              newPrimitiveVertexUVs.setElement(index, uv);
-            });
-          });
+    // When handling the default mesh, we'll want to separate elements from build materials
+    // We do that by finding "islands" of triangles connected by their vertex positions
+    transformer.notify(EventType.DEBUG, `Starting mesh separation process for "${baseName}"...`);
+    for (const { primitive, voxelIslands: triangleVoxelIslands, islands: triangleIslands } of findElementIslands(defaultMesh, defaultMaterial)) {
+      transformer.notify(EventType.DEBUG, `Found ${triangleVoxelIslands.length} voxel groupings and ${triangleIslands.length} isolated groupings in ${primitive.getIndices()!.getCount() / 3} triangles`);
+
+      // Let's rebuild the voxel geometry into a single primitive
+      if (triangleVoxelIslands.length > 0) {
+        const newName = defaultMaterial.getName();
+        defaultMesh.addPrimitive(createPrimitiveFromTriangles(document, primitive, triangleVoxelIslands.flat(), documentBuffer, newName));
+        transformer.notify(EventType.DEBUG, `Created new primitive for "${newName}"`);
+      }
+
+      // Let's rebuild the geometry as individual meshes and nodes for each "island"
+      if (triangleIslands.length > 0) {
+        transformer.notify(EventType.DEBUG, `Building ${triangleIslands.length} primitives, meshes and nodes...`);
+
+        // Let's group all islands under a single node, which keeps the rotation of the original one
+        const groupNode = document.createNode()
+          .setName(`${baseName} (Isolated)`)
+          .setRotation(defaultMeshNode.getRotation());
+        nodesForIslands.push(groupNode);
+        defaultParent.addChild(groupNode);
+
+        // Which local axis points up, so the "bottom" pivot stays at the bottom after rotating
+        const upAxis = getLocalUpAxis(groupNode.getRotation());
+
+        triangleIslands.forEach((triangleIds, islandId) => {
+          const newName = `${baseName} (Group ${islandId})`;
+          const newPrimitive = createPrimitiveFromTriangles(document, primitive, triangleIds, documentBuffer, newName);
+          const newPrimitiveVertexPositions = newPrimitive.getAttribute('POSITION')!;
+
+          // Moves the geometry so its pivot is at the origin, the node is moved there instead
+          const bounds = getBounds(newPrimitiveVertexPositions);
+          const pivot = getPivot(bounds, pivotMode, upAxis);
+          for (let index = 0; index < newPrimitiveVertexPositions.getCount(); index++) {
+            const position = newPrimitiveVertexPositions.getElement(index, []);
+            newPrimitiveVertexPositions.setElement(index, position.map((value, axis) => value - pivot[axis]));
+          }
 
-          // Registers our new nodes
-          const newName = `${defaultMaterial.getName()} (Group ${islandId})`;
-          const newPrimitive = document.createPrimitive()
+          // Registers our new mesh and node
+          const newMesh = document.createMesh()
             .setName(newName)
-            .setAttribute('POSITION', newPrimitiveVertexPositions)
-            .setAttribute('TEXCOORD_0', newPrimitiveVertexUVs)
-            .setIndices(newPrimitiveIndices)
-            .setMaterial(defaultMaterial);
-          newMesh.addPrimitive(newPrimitive);
+            .addPrimitive(newPrimitive);
+          const fingerprint = getElementFingerprint(newMesh);
+          const newNode = document.createNode()
+            .setName(newName)
+            .setMesh(newMesh)
+            .setTranslation(pivot)
+            .setExtras({
+              bounds: {
+                min: bounds.min.map((value, axis) => value - pivot[axis]),
+                max: bounds.max.map((value, axis) => value - pivot[axis]),
+                size: bounds.max.map((value, axis) => value - bounds.min[axis]),
+              },
+              triangle_count: triangleIds.length,
+              fingerprint,
+            });
+          groupNode.addChild(newNode);
+          nodesForIslands.push(newNode);
+
+          // Names and tags any elements we already know about
+          const knownElement = transformer.getElementLibrary()?.elements[fingerprint];
+          if (knownElement) {
+            transformer.notify(EventType.DEBUG, `Identified "${newName}" as "${knownElement.name}"`);
+            newMesh.setName(knownElement.name);
+            newNode.setName(knownElement.name)
+              .setExtras({
+                ...newNode.getExtras(),
+                element_name: knownElement.name,
+                element_tags: knownElement.tags || [],
+              });
+          }
 
-          transformer.notify(EventType.DEBUG, `Created new primitive for "${newName}"`);
-        }
-      );
-    }
+          transformer.notify(EventType.DEBUG, `Created new node for "${newName}"`);
+        });
+      }
 
-    // Clean-up, leaving only the final islands behind
-    primitive.dispose();
+      // Clean-up, leaving only the final islands behind
+      const primitiveAccessors = [primitive.getIndices(), ...primitive.listAttributes()];
+      primitive.dispose();
+      disposeUnusedAccessors(primitiveAccessors);
+    }
   }
 
   // Renames our mesh nodes to keep them organized
-  for (const node of [...Object.values(nodesPerMaterial), ...nodesForIslands]) {
+  for (const node of [...meshNodes, ...nodesForIslands]) {
     const name = `${transformer.getName()}: ${node.getName()}`;
     node.setName(name);
   }
@@ -0,0 +1,29 @@
+import {
+  ProcessingQueueCommandParameters as CommandParams,
+  EventType as EventType
+} from '../types';
+import { UnwrapOptions, unwrapMesh } from '../MeshUnwrapper';
+
+export default async function LightmapUvsTransform({ document, transformer }: CommandParams, options: UnwrapOptions = {}) {
+  // Each mesh gets its own lightmap space, as engines bake lightmaps per object
+  for (const mesh of document.getRoot().listMeshes()) {
+    transformer.notify(EventType.DEBUG, `Unwrapping lightmap UVs for mesh "${mesh.getName()}"...`);
+
+    const result = unwrapMesh(document, mesh, 'TEXCOORD_1', options);
+    if (!result) {
+      transformer.notify(EventType.WARNING, `Mesh "${mesh.getName()}" has too many flat areas to fit into a ${options.resolution || 1024}x${options.resolution || 1024} lightmap, try a higher resolution or merging faces. Skipping...`);
+      continue;
+    }
+
+    const { charts, texelsPerMeter, padding } = result;
+    transformer.notify(EventType.DEBUG, `Packed ${charts} charts for mesh "${mesh.getName()}" at ${texelsPerMeter.toFixed(2)} texels per meter`);
+
+    // Lets the user know we couldn't honor the density they asked for
+    if (options.texelsPerMeter && texelsPerMeter < options.texelsPerMeter) {
+      transformer.notify(EventType.WARNING, `Lightmap UVs for mesh "${mesh.getName()}" don't fit at ${options.texelsPerMeter} texels per meter, using ${texelsPerMeter.toFixed(2)} instead`);
+    }
+    if (options.padding !== undefined && padding < options.padding) {
+      transformer.notify(EventType.WARNING, `Lightmap UVs for mesh "${mesh.getName()}" have too many charts for ${options.padding} pixels of padding, using ${padding} instead`);
+    }
+  }
+}
\ No newline at end of file
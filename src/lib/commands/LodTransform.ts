@@ -0,0 +1,115 @@
+import { Document, Mesh, Node } from '@gltf-transform/core';
+import { simplifyPrimitive, weldPrimitive } from '@gltf-transform/functions';
+
+import {
+  ProcessingQueueCommandParameters as CommandParams,
+  EventType as EventType
+} from '../types';
+import Package from '../Package';
+import { MSFTLod } from '../MsftLodExtension';
+
+export type LodMode = 'nodes' | 'msft_lod';
+
+export type LodOptions = {
+  // The fraction of triangles to keep on each level, from the most to the least detailed, usually starting at 1
+  ratios?: number[];
+  // Either sibling nodes with a "_LOD<n>" suffix (for Unity and Unreal), or the MSFT_lod extension (for Babylon.js and other web viewers)
+  mode?: LodMode;
+  // How much the simplified surface can move, as a fraction of the mesh size, levels stop simplifying before going over it
+  error?: number;
+};
+
+// Helper function to count the triangles on a mesh
+function getTriangleCount(mesh: Mesh): number {
+  return mesh.listPrimitives()
+    .reduce((count, primitive) => count + (primitive.getIndices()?.getCount() || primitive.getAttribute('POSITION')?.getCount() || 0) / 3, 0);
+}
+
+// Builds a simplified copy of a mesh, the original mesh is kept as-is
+function createSimplifiedMesh(document: Document, mesh: Mesh, simplifier: unknown, ratio: number, error: number, name: string): Mesh {
+  const lodMesh = document.createMesh(name)
+    .setExtras({ ...mesh.getExtras() });
+
+  for (const primitive of mesh.listPrimitives()) {
+    // Copies the geometry, as the accessors are shared with the original primitive
+    const lodPrimitive = primitive.clone();
+    for (const semantic of lodPrimitive.listSemantics()) {
+      lodPrimitive.setAttribute(semantic, lodPrimitive.getAttribute(semantic)!.clone());
+    }
+    const indices = lodPrimitive.getIndices();
+    if (indices) {
+      lodPrimitive.setIndices(indices.clone());
+    }
+
+    // Each primitive is simplified on its own with locked borders, keeping the edges between materials intact
+    weldPrimitive(lodPrimitive, { tolerance: 0.0001 });
+    simplifyPrimitive(document, lodPrimitive, { simplifier, ratio, error, lockBorder: true });
+    lodMesh.addPrimitive(lodPrimitive);
+  }
+
+  return lodMesh;
+}
+
+export default async function LodTransform({ document, transformer }: CommandParams, { ratios = [1, 0.5, 0.2], mode = 'nodes', error = 0.01 }: LodOptions = {}) {
+  const { MeshoptSimplifier } = Package.requireOptional('meshoptimizer', 'generating LODs');
+  await MeshoptSimplifier.ready;
+
+  // Each mesh is only simplified once, even when used by multiple nodes
+  const lodMeshes = new Map<Mesh, Mesh[]>();
+  function getLodMeshes(mesh: Mesh): Mesh[] {
+    if (!lodMeshes.has(mesh)) {
+      const triangles = getTriangleCount(mesh);
+      lodMeshes.set(mesh, ratios.map((ratio, level) => {
+        if (ratio >= 1) {
+          return mesh;
+        }
+
+        const lodMesh = createSimplifiedMesh(document, mesh, MeshoptSimplifier, ratio, error, `${mesh.getName()} (LOD${level})`);
+        transformer.notify(EventType.DEBUG, `LOD${level} for mesh "${mesh.getName()}": ${triangles} -> ${getTriangleCount(lodMesh)} triangles`);
+        return lodMesh;
+      }));
+    }
+
+    return lodMeshes.get(mesh)!;
+  }
+
+  // After separating elements, the voxels and each group of elements have their own nodes, so they all get their own LODs
+  const lodExtension = (mode == 'msft_lod') ? document.createExtension(MSFTLod) : null;
+  for (const node of document.getRoot().listNodes().filter(node => !!node.getMesh())) {
+    const mesh = node.getMesh()!;
+    const meshes = getLodMeshes(mesh);
+    const name = node.getName() || mesh.getName();
+
+    // Creates a node for each level other than the first one, in the same place as the original
+    const lodNodes = meshes.slice(1).map((lodMesh, idx) => document.createNode(`${name}_LOD${idx + 1}`)
+      .setMesh(lodMesh)
+      .setTranslation(node.getTranslation())
+      .setRotation(node.getRotation())
+      .setScale(node.getScale())
+      .setExtras({ ...node.getExtras() }));
+    node.setMesh(meshes[0]);
+
+    if (lodExtension) {
+      // The other levels are only referenced by the extension, as viewers swap them in place of the original node
+      const lod = lodExtension.createLod();
+      lodNodes.forEach(lodNode => lod.addNode(lodNode));
+      node.setExtension('MSFT_lod', lod);
+    } else {
+      // Engines pick up the levels by their suffix, so they need to be siblings
+      node.setName(`${name}_LOD0`);
+      const parentNode = node.getParentNode();
+      const scenes = document.getRoot().listScenes().filter(scene => scene.listChildren().includes(node));
+      for (const lodNode of lodNodes) {
+        parentNode?.addChild(lodNode);
+        scenes.forEach(scene => scene.addChild(lodNode));
+      }
+    }
+  }
+
+  // Clean-up meshes replaced by their first level
+  for (const mesh of lodMeshes.keys()) {
+    if (!document.getRoot().listNodes().some(node => node.getMesh() == mesh)) {
+      mesh.dispose();
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { Document, Logger, PropertyType } from '@gltf-transform/core';
+import { dedup, draco, meshopt, prune, weld } from '@gltf-transform/functions';
+
+import {
+  ProcessingQueueCommandParameters as CommandParams,
+  EventType as EventType
+} from '../types';
+import Package from '../Package';
+
+export type MeshCompression = 'none' | 'meshopt' | 'draco';
+
+export type OptimizationOptions = {
+  // Compresses the geometry, this requires the "meshoptimizer" or "draco3dgltf" packages and a viewer that supports it
+  compression?: MeshCompression;
+  // How close vertices need to be to be welded, as a fraction of the mesh size, vertices with different UVs or normals are never welded
+  weldTolerance?: number;
+};
+
+type DocumentStats = { vertices: number, geometryBytes: number, textureBytes: number };
+
+// Helper function to get the rough size of a document, before compression
+function getDocumentStats(document: Document): DocumentStats {
+  const vertices = document.getRoot().listMeshes()
+    .flatMap(mesh => mesh.listPrimitives())
+    .reduce((count, primitive) => count + (primitive.getAttribute('POSITION')?.getCount() || 0), 0);
+  const geometryBytes = document.getRoot().listAccessors()
+    .reduce((bytes, accessor) => bytes + accessor.getByteLength(), 0);
+  const textureBytes = document.getRoot().listTextures()
+    .reduce((bytes, texture) => bytes + (texture.getImage()?.byteLength || 0), 0);
+
+  return { vertices, geometryBytes, textureBytes };
+}
+
+// Helper function to describe how much a value went down
+function formatSavings(label: string, before: number, after: number, unit: string = ''): string {
+  const percent = before > 0 ? (1 - after / before) * 100 : 0;
+  return `${label}: ${before}${unit} -> ${after}${unit} (${percent.toFixed(1)}% smaller)`;
+}
+
+/**
+ * Loads the encoders needed to write a document with the selected compression, to be registered on the glTF writer
+ */
+export async function loadCompressionDependencies(compression: MeshCompression): Promise<Record<string, unknown>> {
+  switch (compression) {
+    case 'meshopt':
+      const { MeshoptEncoder } = Package.requireOptional('meshoptimizer', `${compression} compression`);
+      await MeshoptEncoder.ready;
+      return { 'meshopt.encoder': MeshoptEncoder };
+    case 'draco':
+      return { 'draco3d.encoder': await Package.requireOptional('draco3dgltf', `${compression} compression`).createEncoderModule() };
+    default:
+      return {};
+  }
+}
+
+export default async function OptimizationTransform({ document, transformer }: CommandParams, { compression = 'none', weldTolerance = 0.0001 }: OptimizationOptions = {}) {
+  const before = getDocumentStats(document);
+
+  // Welds identical vertices (only when all their attributes match), then removes duplicate and unused data
+  // The savings are reported through our own debug events, so only warnings are kept from glTF Transform's logger
+  transformer.notify(EventType.DEBUG, `Welding vertices and removing duplicate data...`);
+  document.setLogger(new Logger(Logger.Verbosity.WARN));
+  await document.transform(
+    weld({ tolerance: weldTolerance }),
+    dedup({ propertyTypes: [PropertyType.ACCESSOR, PropertyType.TEXTURE] }),
+    prune(),
+  );
+
+  const after = getDocumentStats(document);
+  transformer.notify(EventType.DEBUG, formatSavings('Vertices', before.vertices, after.vertices));
+  transformer.notify(EventType.DEBUG, formatSavings('Geometry', before.geometryBytes, after.geometryBytes, ' bytes'));
+  transformer.notify(EventType.DEBUG, formatSavings('Textures', before.textureBytes, after.textureBytes, ' bytes'));
+
+  // Compression only happens when the file is written, so we only register the encoders here
+  if (compression != 'none') {
+    transformer.notify(EventType.DEBUG, `Applying ${compression} compression, the final size is only known once saved...`);
+
+    const dependencies = await loadCompressionDependencies(compression);
+    transformer.setIoDependencies(dependencies);
+
+    if (compression == 'meshopt') {
+      await document.transform(meshopt({ encoder: dependencies['meshopt.encoder'], level: 'medium' }));
+    } else {
+      await document.transform(draco());
+    }
+  }
+}
\ No newline at end of file
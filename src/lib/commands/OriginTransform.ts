@@ -0,0 +1,33 @@
+import { getBounds, vec3 } from '@gltf-transform/core';
+
+import {
+  ProcessingQueueCommandParameters as CommandParams
+} from '../types';
+
+// Either the construct's core (as placed in-game), the center of its bounding box, or the center of its bottom face
+export type OriginMode = 'core' | 'center' | 'bottom';
+
+export default async function OriginTransform({ document }: CommandParams, origin: OriginMode = 'core') {
+  // The core is where exported constructs already have their origin
+  if (origin == 'core') {
+    return;
+  }
+
+  for (const scene of document.getRoot().listScenes()) {
+    const { min, max } = getBounds(scene);
+    if (!isFinite(min[0]) || !isFinite(max[0])) {
+      continue;
+    }
+
+    // The output is Y-up, so the bottom is the lowest Y
+    const offset = min.map((value, axis) => -(value + max[axis]) / 2) as vec3;
+    if (origin == 'bottom') {
+      offset[1] = -min[1];
+    }
+
+    // Moves the top-level nodes, so any nodes under them (such as separated elements) keep their own origins
+    for (const node of scene.listChildren()) {
+      node.setTranslation(node.getTranslation().map((value, axis) => value + offset[axis]) as vec3);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { vec3 } from '@gltf-transform/core';
+import { transformMesh } from '@gltf-transform/functions';
+
+// @ts-ignore
+import { fromScaling } from 'gl-matrix/mat4';
+
+import {
+  ProcessingQueueCommandParameters as CommandParams
+} from '../types';
+
+export default async function ScaleTransform({ document }: CommandParams, scale: number = 1) {
+  // Let's scale all meshes at once
+  for (const mesh of document.getRoot().listMeshes()) {
+    transformMesh(mesh, fromScaling([], [scale, scale, scale]));
+  }
+
+  // Node positions also need scaling, so everything stays in place relative to each other
+  for (const node of document.getRoot().listNodes()) {
+    node.setTranslation(node.getTranslation().map(value => value * scale) as vec3);
+
+    // Separated elements list their bounds in their extras, which should match the new units
+    const { bounds, ...extras } = node.getExtras() as { bounds?: { min: number[], max: number[], size: number[] } };
+    if (bounds) {
+      node.setExtras({
+        ...extras,
+        bounds: {
+          min: bounds.min.map(value => value * scale),
+          max: bounds.max.map(value => value * scale),
+          size: bounds.size.map(value => value * scale),
+        },
+      });
+    }
+  }
+}
\ No newline at end of file
@@ -11,57 +11,241 @@ import {
 } from '../types';
 import DuMeshTransformer from '../DuMeshTransformer';
 import { findCommonWords } from '../CommonWords';
-import RgbaBuffer from '../RgbaBuffer';
+import RgbaBuffer, { TransformCallback } from '../RgbaBuffer';
 import DdsConverter from '../DdsConverter';
 
-// Loads individual textures
-async function loadTexture(transformer: DuMeshTransformer, textureFile: string, materialId: string, textureType: string) {
-  let textureFileExtension = path.extname(textureFile);
+export type TextureOutputFormat = 'png' | 'jpeg';
 
-  let textureId = `${materialId}_${textureType}`;
-  const makeTextureUri = () => `textures/${textureId}${textureFileExtension}`;
+// Extra layouts for the metallic/roughness/AO data, besides glTF's own
+export type ChannelPacking = 'gltf' | 'separate' | 'unity' | 'hdrp';
 
-  // Check the cache per filename
-  const existingTextureByFile = await transformer.rememberMany<Texture>('texture_files', textureFile);
-  if (existingTextureByFile) {
-    textureId = `${findCommonWords(existingTextureByFile.getName(), materialId).join('')}_${textureType}`;
-    textureFileExtension = path.extname(existingTextureByFile.getURI());
-    return existingTextureByFile
-      .setName(textureId)
-      .setURI(makeTextureUri());
+export type TexturesTransformOptions = {
+  // Flips the normal map green channel, converting between DirectX (Y-) and OpenGL (Y+) conventions
+  flipNormalMapGreen?: boolean;
+  // Maximum width or height of any texture, larger textures are downsampled
+  maxTextureSize?: number;
+  // Format for the color and emissive maps, the data maps (normal, MRAO) are always PNG to avoid compression artifacts
+  colorTextureFormat?: TextureOutputFormat;
+  // Quality from 1 to 100, when using JPEG
+  jpegQuality?: number;
+  // Texture types that shouldn't be applied at all (such as "normal" or "emissive")
+  excludeTextureTypes?: string[];
+  // Writes the MRAO data in other layouts as additional files, when saving as .gltf
+  channelPacking?: ChannelPacking;
+};
+
+// Converts a pixel from the glTF occlusion-roughness-metallic layout into other layouts, one per additional file
+export const CHANNEL_PACKINGS: Record<ChannelPacking, Record<string, TransformCallback>> = {
+  gltf: {},
+  // Individual grayscale maps, mostly for Blender
+  separate: {
+    metallic: ([ao, roughness, metallic]) => [metallic, metallic, metallic, 255],
+    roughness: ([ao, roughness, metallic]) => [roughness, roughness, roughness, 255],
+    ao: ([ao, roughness, metallic]) => [ao, ao, ao, 255],
+  },
+  // Unity's Standard and URP shaders: metallic in RGB, smoothness in alpha
+  unity: {
+    metallic_smoothness: ([ao, roughness, metallic]) => [metallic, metallic, metallic, 255 - roughness],
+  },
+  // Unity's HDRP mask map: metallic, AO, detail mask and smoothness
+  hdrp: {
+    mask: ([ao, roughness, metallic]) => [metallic, ao, 0, 255 - roughness],
+  },
+};
+
+// These are the textures that hold color data, so they can use lossy compression
+const COLOR_TEXTURE_TYPES = [MaterialTextureTypes.COLOR, MaterialTextureTypes.EMISSIVE];
+
+// Gets the output format for a texture type
+function getTextureOutputFormat(textureType: string, options: TexturesTransformOptions): TextureOutputFormat {
+  return COLOR_TEXTURE_TYPES.includes(textureType)
+    ? (options.colorTextureFormat || 'png')
+    : 'png';
+}
+
+// Decoded texture data, this is not tied to any document so it can be shared between transformers
+type DecodedTexture = { bytes: Uint8Array, extension: string };
+type PackedTextures = { texture: Texture, outputs: Record<string, DecodedTexture> };
+
+// Bump this whenever the decoded output changes, so any previously cached textures are ignored
+const DECODER_REVISION = 2;
+
+// Gets an unique identifier for a texture type decoded with a certain set of options, used for caching
+function getTextureVariant(textureType: string, options: TexturesTransformOptions): string {
+  const variant = [`r${DECODER_REVISION}`, textureType];
+
+  if (textureType == MaterialTextureTypes.NORMAL_MAP && options.flipNormalMapGreen) {
+    variant.push('flip-green');
+  }
+
+  if (options.maxTextureSize) {
+    variant.push(`max${options.maxTextureSize}`);
   }
 
+  if (getTextureOutputFormat(textureType, options) == 'jpeg') {
+    variant.push(`jpeg${options.jpegQuality}`);
+  }
+
+  return variant.join(':');
+}
+
+// Rebuilds the blue (Z) channel of a normal map that only stores red (X) and green (Y)
+function reconstructNormalZ(textureRGBA: RgbaBuffer) {
+  textureRGBA.transform(([r, g, b, a]) => {
+    const x = r / 255 * 2 - 1;
+    const y = g / 255 * 2 - 1;
+    const z = Math.sqrt(Math.max(0, 1 - x * x - y * y));
+    return [r, g, Math.round((z * 0.5 + 0.5) * 255), a];
+  });
+}
+
+// Reads and decodes a texture file into raw pixels, with any channel fixes and resizing applied
+async function decodeTextureRgba(textureFile: string, textureType: string, options: TexturesTransformOptions): Promise<RgbaBuffer> {
+  const textureFileExtension = path.extname(textureFile);
+
   // Ensure the file exists
   if (!fileExists(textureFile)) {
     throw new Error(`Tried to load texture file into glTF, but it was not found: ${textureFile}`);
   }
 
   // Loads our texture
-  let textureBytes = await fs.readFile(textureFile);
+  const textureBytes = await fs.readFile(textureFile);
+
+  // Decodes the texture, DDS files can't be read by glTF viewers so we always convert them
+  let textureRGBA;
+  let isTwoChannel = false;
+  if (textureFileExtension == '.dds') {
+    isTwoChannel = DdsConverter.isTwoChannelFormat(DdsConverter.getFormat(textureBytes));
+    textureRGBA = DdsConverter.convertToRgba(textureBytes);
+  } else {
+    textureRGBA = await RgbaBuffer.fromFileBuffer(textureBytes);
+  }
 
   // For MRAO we want to reorder the channels from Metallic-Roughness-AO to AO-Roughness-Metallic
-  if ((true && textureType != MaterialTextureTypes.NORMAL_MAP) || textureType == MaterialTextureTypes.METALLIC_ROUGHNESS_AMBIENT_OCCLUSION) {
-    let textureRGBA;
-    if (textureFileExtension == '.dds') {
-      textureRGBA = DdsConverter.convertToRgba(textureBytes);
-    } else {
-      textureRGBA = await RgbaBuffer.fromFileBuffer(textureBytes);
+  if (textureType == MaterialTextureTypes.METALLIC_ROUGHNESS_AMBIENT_OCCLUSION) {
+    textureRGBA.transform(channels => [channels[2], channels[1], channels[0], channels[3]]);
+  }
+
+  // Normal maps stored in two-channel formats (such as BC5) need their Z rebuilt, and might need to be converted to the other Y convention
+  if (textureType == MaterialTextureTypes.NORMAL_MAP) {
+    if (isTwoChannel) {
+      reconstructNormalZ(textureRGBA);
     }
 
-    // Swaps the channels for MRAO
-    if (textureType == 'mrao') {
-      textureRGBA.transform(channels => [channels[2], channels[1], channels[0], channels[3]]);
+    if (options.flipNormalMapGreen) {
+      textureRGBA.transform(([r, g, b, a]) => [r, 255 - g, b, a]);
     }
+  }
+
+  // Downsamples large textures
+  if (options.maxTextureSize) {
+    textureRGBA = textureRGBA.fitWithin(options.maxTextureSize);
+  }
+
+  return textureRGBA;
+}
 
-    // Stores the resulting bytes
+// Reads and decodes a texture file into something that can be embedded in glTF
+async function decodeTexture(textureFile: string, textureType: string, options: TexturesTransformOptions): Promise<DecodedTexture> {
+  const textureRGBA = await decodeTextureRgba(textureFile, textureType, options);
+
+  // Stores the resulting bytes
+  let textureFileExtension, textureBytes;
+  if (getTextureOutputFormat(textureType, options) == 'jpeg') {
+    textureFileExtension = '.jpg';
+    textureBytes = await textureRGBA.toConvertedBuffer('image/jpeg', options.jpegQuality);
+  } else {
     textureFileExtension = '.png';
     textureBytes = await textureRGBA.toConvertedBuffer('image/png');
   }
 
+  return { bytes: textureBytes, extension: textureFileExtension };
+}
+
+// Gets the MRAO data in all additional layouts for the selected channel packing, decoding the source only once
+async function loadPackedTextures(transformer: DuMeshTransformer, textureFile: string, textureType: string, options: TexturesTransformOptions): Promise<Record<string, DecodedTexture>> {
+  const packing = CHANNEL_PACKINGS[options.channelPacking || 'gltf'];
+  const textureCache = transformer.getTextureCache();
+  const result: Record<string, DecodedTexture> = {};
+
+  // Checks what we already have in the caches
+  const getVariant = (output: string) => `${getTextureVariant(textureType, options)}:pack-${output}`;
+  for (const output in packing) {
+    const cachedTexture = await transformer.getSharedCache().rememberMany<DecodedTexture>('texture_data', `${getVariant(output)}:${textureFile}`)
+      || (textureCache && await textureCache.get(textureFile, getVariant(output)));
+
+    if (cachedTexture) {
+      result[output] = cachedTexture;
+    }
+  }
+
+  // Decodes the missing outputs
+  const missingOutputs = Object.keys(packing).filter(output => !result[output]);
+  if (missingOutputs.length > 0) {
+    const textureRGBA = await decodeTextureRgba(textureFile, textureType, options);
+    for (const output of missingOutputs) {
+      const packedRGBA = textureRGBA.clone();
+      packedRGBA.transform(packing[output]);
+      result[output] = { bytes: await packedRGBA.toConvertedBuffer('image/png'), extension: '.png' };
+
+      if (textureCache) {
+        await textureCache.set(textureFile, getVariant(output), result[output]);
+      }
+    }
+  }
+
+  // Keeps everything in memory for other transformers
+  for (const output in result) {
+    transformer.getSharedCache().setRememberMany('texture_data', `${getVariant(output)}:${textureFile}`, result[output]);
+  }
+
+  return result;
+}
+
+// Loads individual textures
+async function loadTexture(transformer: DuMeshTransformer, textureFile: string, materialId: string, textureType: string, options: TexturesTransformOptions) {
+  let textureFileExtension = path.extname(textureFile);
+
+  let textureId = `${materialId}_${textureType}`;
+  const makeTextureUri = () => `textures/${textureId}${textureFileExtension}`;
+
+  // Check the cache per filename
+  const existingTextureByFile = await transformer.rememberMany<Texture>('texture_files', textureFile);
+  if (existingTextureByFile) {
+    textureId = `${findCommonWords(existingTextureByFile.getName(), materialId).join('')}_${textureType}`;
+    textureFileExtension = path.extname(existingTextureByFile.getURI());
+    return existingTextureByFile
+      .setName(textureId)
+      .setURI(makeTextureUri());
+  }
+
+  // Decodes the texture, or re-uses it if another transformer (or a previous run) already did that
+  const textureVariant = getTextureVariant(textureType, options);
+  const decodedTexture: DecodedTexture = await transformer.getSharedCache().rememberMany(
+    'texture_data',
+    `${textureVariant}:${textureFile}`,
+    async () => {
+      const textureCache = transformer.getTextureCache();
+      const cachedTexture = textureCache && await textureCache.get(textureFile, textureVariant);
+      if (cachedTexture) {
+        transformer.notify(EventType.DEBUG, `Using cached texture for "${textureFile}"`);
+        return cachedTexture;
+      }
+
+      const decodedTexture = await decodeTexture(textureFile, textureType, options);
+      if (textureCache) {
+        await textureCache.set(textureFile, textureVariant, decodedTexture);
+      }
+      return decodedTexture;
+    },
+  );
+  textureFileExtension = decodedTexture.extension;
+
   // Let's load the textures from the file
   const newTexture = transformer.getDocument().createTexture(textureId)
     .setName(textureId)
-    .setImage(textureBytes);
+    .setImage(decodedTexture.bytes)
+    .setMimeType(textureFileExtension == '.jpg' ? 'image/jpeg' : 'image/png');
 
   // Updates texture name
   newTexture.setURI(makeTextureUri());
@@ -69,12 +253,27 @@ async function loadTexture(transformer: DuMeshTransformer, textureFile: string,
   // Saves texture data for later
   transformer.setRememberMany('texture_files', textureFile, newTexture);
 
+  // Prepares any additional layouts for the MRAO data, those are written when the document is saved
+  if (textureType == MaterialTextureTypes.METALLIC_ROUGHNESS_AMBIENT_OCCLUSION && options.channelPacking && options.channelPacking != 'gltf') {
+    transformer.setRememberMany<PackedTextures>('packed_textures', textureFile, {
+      texture: newTexture,
+      outputs: await loadPackedTextures(transformer, textureFile, textureType, options),
+    });
+  }
+
   // Done!
   return newTexture;
 }
 
+// Gets the full path for one of a material's textures, custom textures from material overrides can have absolute paths
+function getGameTextureFile(dataDir: string, gameMaterial: MaterialDefinition, textureType: string): string {
+  return path.isAbsolute(gameMaterial.files[textureType])
+    ? gameMaterial.files[textureType]
+    : path.join(dataDir, gameMaterial.files[textureType]);
+}
+
 // Gets a list of textures for a material
-async function getGameTextures(transformer: DuMeshTransformer, gameMaterial: MaterialDefinition) {
+async function getGameTextures(transformer: DuMeshTransformer, gameMaterial: MaterialDefinition, options: TexturesTransformOptions) {
   return await transformer.rememberMany('textures', gameMaterial.materialId, async () => {
     const dataDir = transformer.getDataDirectory();
     
@@ -85,19 +284,24 @@ async function getGameTextures(transformer: DuMeshTransformer, gameMaterial: Mat
       
     const textureData: Record<string, Texture> = {};
     for (const textureType in gameMaterial.files) {
-      const textureFile = path.join(dataDir, gameMaterial.files[textureType]);
-      textureData[textureType] = await loadTexture(transformer, textureFile, gameMaterial.materialId, textureType);
+      // Skips any textures we don't want
+      if ((options.excludeTextureTypes || []).includes(textureType)) {
+        continue;
+      }
+
+      const textureFile = getGameTextureFile(dataDir, gameMaterial, textureType);
+      textureData[textureType] = await loadTexture(transformer, textureFile, gameMaterial.materialId, textureType, options);
     }
     return textureData;
   });
 }
 
-export default async function TexturesTransform({ transformer }: CommandParams) {
+export default async function TexturesTransform({ transformer }: CommandParams, options: TexturesTransformOptions = {}) {
   for (const { material, gameMaterial } of transformer.getGltfMaterialsWithGameMaterials()) {
     transformer.notify(EventType.DEBUG, `Processing textures for "${material.getName()}"...`);
     
     // Loads the textures we'll be using
-    const textures = await getGameTextures(transformer, gameMaterial);
+    const textures = await getGameTextures(transformer, gameMaterial, options);
 
     // Applies textures as needed
     material.setBaseColorTexture(textures.color);
@@ -120,4 +324,28 @@ export default async function TexturesTransform({ transformer }: CommandParams)
       material.setRoughnessFactor(1.000);
     }
   }
+
+  // Registers the repacked MRAO data as additional files, this is done last so they match the final texture names
+  const dataDir = transformer.getDataDirectory();
+  for (const { material, gameMaterial } of transformer.getGltfMaterialsWithGameMaterials()) {
+    if (!dataDir || !gameMaterial.files[MaterialTextureTypes.METALLIC_ROUGHNESS_AMBIENT_OCCLUSION]) {
+      continue;
+    }
+
+    const textureFile = getGameTextureFile(dataDir, gameMaterial, MaterialTextureTypes.METALLIC_ROUGHNESS_AMBIENT_OCCLUSION);
+    const packedTextures = await transformer.rememberMany<PackedTextures>('packed_textures', textureFile);
+    if (!packedTextures) {
+      continue;
+    }
+
+    const packedTextureFiles: Record<string, string> = {};
+    const textureUri = packedTextures.texture.getURI();
+    for (const output in packedTextures.outputs) {
+      const packedTextureFile = `${path.dirname(textureUri)}/${path.basename(textureUri, path.extname(textureUri))}_${output}${packedTextures.outputs[output].extension}`;
+      transformer.addExtraFile(packedTextureFile, packedTextures.outputs[output].bytes);
+      packedTextureFiles[output] = packedTextureFile;
+    }
+
+    material.setExtras({ ...material.getExtras(), packed_textures: packedTextureFiles });
+  }
 }
\ No newline at end of file
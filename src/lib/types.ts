@@ -23,6 +23,15 @@ export const MaterialTextureTypes: Record<string, string> = {
   EMISSIVE: 'emissive',
 };
 
+export const MaterialCategories: string[] = [
+  'hcombs_v1',
+  'hcombs_v2',
+  'worlds_v1',
+  'worlds_v2',
+  'ores_v1',
+  'emissive',
+];
+
 export type MaterialDefinition = {
   materialId: string;
   title: string;
@@ -36,6 +45,12 @@ export type MaterialDefinition = {
 export type MaterialDefinitions = {
   items: Record<string, MaterialDefinition>;
 };
+export type MaterialDefinitionOverride = Partial<Omit<MaterialDefinition, 'files'>> & {
+  files?: Partial<Record<keyof typeof MaterialTextureTypes, string | null>>;
+};
+export type MaterialDefinitionOverrides = {
+  items: Record<string, MaterialDefinitionOverride>;
+};
 export type MaterialPair = { material: Material, gameMaterial: MaterialDefinition };
 
 export enum MeshType {